@@ -0,0 +1,87 @@
+import { AdaptivePlotter, ExplicitFunction, sampleFunction } from './Plotter';
+import { Color } from './src/Color';
+import { GraphingCanvas, MathStr } from './src/GraphingCanvas';
+import { Rect } from './src/Rect';
+import { Vec2 } from './src/Vec2';
+
+const instructions = document.createElement('ul');
+[
+  'Press the 1 to 6 keys to pick a function.',
+  'Pressing "+" and "-" zooms in and out around the origin.',
+  '"S" toggles the samples, which gather where the graph bends.',
+].forEach((str) => {
+  const e = document.createElement('li');
+  e.innerText = str;
+  instructions.appendChild(e);
+});
+document.getElementById('app')!.appendChild(instructions);
+
+const size = 400;
+
+const functions: [string, ExplicitFunction][] = [
+  ['\\tan(x)', Math.tan],
+  ['1 / x', (x) => 1 / x],
+  ['\\lfloor x \\rfloor', Math.floor],
+  ['\\sqrt{x}', Math.sqrt],
+  ['\\sin(1 / x)', (x) => Math.sin(1 / x)],
+  ['x^2 - 1.5', (x) => x * x - 1.5],
+];
+
+let functionIndex = 0;
+let halfWidth = 4;
+let showSamples = false;
+
+const style = { color: new Color(0.85, 0.1, 0.1), thickness: 2 };
+
+const updatePlacard = () => {
+  const [label] = functions[functionIndex];
+  graphingCanvas.addPlacard('function', MathStr(`y = ${label}`), {
+    canvasPosition: new Vec2(0.5, 1),
+    anchor: new Vec2(0.5, 1),
+  });
+};
+
+const graphingCanvas = GraphingCanvas.root({
+  size,
+  viewport: Rect.createRanges([-halfWidth, halfWidth], [-halfWidth, halfWidth]),
+  onKeyDown: (key) => {
+    const index = Number.parseInt(key);
+    if (!Number.isNaN(index) && index >= 1 && index <= functions.length) {
+      functionIndex = index - 1;
+      updatePlacard();
+    } else if (key === '+' || key === '=') {
+      halfWidth /= 1.25;
+    } else if (key === '-') {
+      halfWidth *= 1.25;
+    } else if (key === 's') {
+      showSamples = !showSamples;
+    }
+    graphingCanvas.viewport = Rect.createRanges(
+      [-halfWidth, halfWidth],
+      [-halfWidth, halfWidth]
+    );
+  },
+});
+
+updatePlacard();
+
+graphingCanvas.renderers = [
+  (canvas, viewport) => {
+    const [, fn] = functions[functionIndex];
+    AdaptivePlotter(fn, style)(canvas, viewport);
+
+    if (showSamples) {
+      const { polylines } = sampleFunction(fn, viewport, canvas.pixelSize);
+      polylines.forEach((polyline) =>
+        polyline.forEach((p) =>
+          canvas.drawCircle(p, canvas.pixelThickness * 2, Color.black)
+        )
+      );
+    }
+  },
+];
+
+const tickRateMs = 1000 / 60;
+graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, () => {
+  graphingCanvas.render();
+});
@@ -0,0 +1,103 @@
+import { BSplineCurve, BSplineDebugRenderer } from './src/BSpline';
+import { Color } from './src/Color';
+import { GraphingCanvas } from './src/GraphingCanvas';
+import { Rect } from './src/Rect';
+import { Vec2 } from './src/Vec2';
+
+const instructions = document.createElement('ul');
+[
+  'Press the 1 to 9 keys to change which control point is active.',
+  'Moving the mouse moves the active control point.',
+  'Pressing the 0 key deselects the active control point.',
+  'Pressing "+" adds a control point and "-" removes the last one.',
+  'Up and down arrows change the weight of the active control point.',
+  '"D" steps through degrees 1 to 5, "U" toggles uniform and open-uniform knots.',
+  '"C" shows an exact NURBS circle for comparison.',
+].forEach((str) => {
+  const e = document.createElement('li');
+  e.innerText = str;
+  instructions.appendChild(e);
+});
+document.getElementById('app')!.appendChild(instructions);
+
+const size = 400;
+
+const interactivePoints = [
+  new Vec2(-1.5, -1),
+  new Vec2(-1, 1),
+  new Vec2(0, 1.5),
+  new Vec2(0.5, -0.5),
+  new Vec2(1.25, -1.25),
+  new Vec2(1.5, 1),
+];
+const weights = interactivePoints.map(() => 1);
+
+let currentPointIndex = -1;
+let degree = 3;
+let knots: 'uniform' | 'open-uniform' = 'open-uniform';
+let showCircle = false;
+
+const graphingCanvas = GraphingCanvas.root({
+  size,
+  viewport: Rect.createRanges([-2, 2], [-2, 2]),
+  onMouseMove: (p) => {
+    if (currentPointIndex >= 0) {
+      interactivePoints[currentPointIndex] = p;
+    }
+  },
+  onKeyDown: (key) => {
+    const index = Number.parseInt(key);
+    if (
+      !Number.isNaN(index) &&
+      index >= 0 &&
+      index <= interactivePoints.length
+    ) {
+      currentPointIndex = index - 1;
+    } else if (key === '+' || key === '=') {
+      interactivePoints.push(Vec2.zero);
+      weights.push(1);
+      currentPointIndex = interactivePoints.length - 1;
+    } else if (key === '-' && interactivePoints.length > 2) {
+      interactivePoints.pop();
+      weights.pop();
+      currentPointIndex = -1;
+    } else if (key === 'ArrowUp' && currentPointIndex >= 0) {
+      weights[currentPointIndex] *= 1.25;
+    } else if (key === 'ArrowDown' && currentPointIndex >= 0) {
+      weights[currentPointIndex] /= 1.25;
+    } else if (key === 'd') {
+      degree = (degree % 5) + 1;
+    } else if (key === 'u') {
+      knots = knots === 'uniform' ? 'open-uniform' : 'uniform';
+    } else if (key === 'c') {
+      showCircle = !showCircle;
+    }
+  },
+});
+
+graphingCanvas.renderers = [
+  (canvas, viewport) => {
+    const curve = BSplineCurve.create(interactivePoints, {
+      degree,
+      knots,
+      weights,
+    });
+
+    BSplineDebugRenderer(curve, { color: Color.black, thickness: 3 })(
+      canvas,
+      viewport
+    );
+
+    if (showCircle) {
+      BSplineDebugRenderer(BSplineCurve.circle(Vec2.zero, 1), {
+        color: new Color(0, 0, 0.8),
+        thickness: 2,
+      })(canvas, viewport);
+    }
+  },
+];
+
+const tickRateMs = 1000 / 60;
+graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, () => {
+  graphingCanvas.render();
+});
@@ -0,0 +1,91 @@
+import { colormaps, ColorScale } from './src/ColorScale';
+import { GraphingCanvas, MathStr } from './src/GraphingCanvas';
+import { Rect } from './src/Rect';
+import { Vec2 } from './src/Vec2';
+
+const instructions = document.createElement('ul');
+[
+  'The field grows tenfold every 2 units to the right and wobbles in y.',
+  '"L", "G" and "D" pick a linear, log or diverging (around 1) scale.',
+  '"C" cycles through the colormaps, "Q" toggles 7 quantized steps.',
+].forEach((str) => {
+  const e = document.createElement('li');
+  e.innerText = str;
+  instructions.appendChild(e);
+});
+document.getElementById('app')!.appendChild(instructions);
+
+const size = 400;
+const cells = 40;
+const domain: [number, number] = [0.01, 100];
+
+const field = (p: Vec2) =>
+  (10 ** (p.x / 2) * (1.5 + Math.sin(1.5 * p.y))) / 1.5;
+
+const colormapNames = Object.keys(colormaps) as (keyof typeof colormaps)[];
+let colormapIndex = 0;
+let type: 'linear' | 'log' | 'diverging' = 'log';
+let quantized = false;
+
+const scale = () => {
+  const colormap = colormaps[colormapNames[colormapIndex]];
+  const s =
+    type === 'linear'
+      ? ColorScale.linear(domain, colormap)
+      : type === 'log'
+      ? ColorScale.log(domain, colormap)
+      : ColorScale.diverging(domain, 1, colormap);
+  return s.quantized(quantized ? 7 : undefined);
+};
+
+// Typesetting the tick labels is slow, so this only runs on key presses
+const updateColorbar = () => {
+  graphingCanvas.addColorbar(scale(), {
+    label: MathStr(`\\text{${colormapNames[colormapIndex]}}`),
+  });
+};
+
+const graphingCanvas = GraphingCanvas.root({
+  size,
+  viewport: Rect.createRanges([-4, 4], [-4, 4]),
+  onKeyDown: (key) => {
+    if (key === 'l') {
+      type = 'linear';
+    } else if (key === 'g') {
+      type = 'log';
+    } else if (key === 'd') {
+      type = 'diverging';
+    } else if (key === 'c') {
+      colormapIndex = (colormapIndex + 1) % colormapNames.length;
+    } else if (key === 'q') {
+      quantized = !quantized;
+    }
+    updateColorbar();
+  },
+});
+
+graphingCanvas.setAxisSettingsX({ visible: false });
+graphingCanvas.setAxisSettingsY({ visible: false });
+updateColorbar();
+
+graphingCanvas.renderers = [
+  (canvas, viewport) => {
+    const s = scale();
+    const cellSize = viewport.size.scale(1 / cells);
+
+    for (let i = 0; i < cells; i++) {
+      for (let j = 0; j < cells; j++) {
+        const cell = new Rect(
+          viewport.origin.add(cellSize.componentMul(new Vec2(i, j))),
+          cellSize
+        );
+        canvas.drawRect(cell, { fillColor: s.color(field(cell.midpoint)) });
+      }
+    }
+  },
+];
+
+const tickRateMs = 1000 / 60;
+graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, () => {
+  graphingCanvas.render();
+});
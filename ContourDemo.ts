@@ -0,0 +1,81 @@
+import { ContourRenderer, ImplicitFunction } from './Plotter';
+import { Color } from './src/Color';
+import { ColorScale, niceTicks } from './src/ColorScale';
+import { GraphingCanvas, MathStr } from './src/GraphingCanvas';
+import { Rect } from './src/Rect';
+
+const instructions = document.createElement('ul');
+[
+  'Up and down arrows move the highlighted level.',
+  'Pressing "+" and "-" draws more or fewer levels.',
+  '"L" toggles the labels on the lines.',
+].forEach((str) => {
+  const e = document.createElement('li');
+  e.innerText = str;
+  instructions.appendChild(e);
+});
+document.getElementById('app')!.appendChild(instructions);
+
+const size = 400;
+const domain: [number, number] = [-7, 9];
+
+// The "peaks" surface, a few hills and valleys
+const peaks: ImplicitFunction = (x, y) =>
+  3 * (1 - x) ** 2 * Math.exp(-(x ** 2) - (y + 1) ** 2) -
+  10 * (x / 5 - x ** 3 - y ** 5) * Math.exp(-(x ** 2) - y ** 2) -
+  Math.exp(-((x + 1) ** 2) - y ** 2) / 3;
+
+const scale = ColorScale.linear(domain);
+
+let levelCount = 12;
+let levels = niceTicks(...domain, levelCount);
+let highlightIndex = Math.floor(levels.length / 2);
+let labels = true;
+
+const style = { color: Color.black, thickness: 1.5 };
+
+const graphingCanvas = GraphingCanvas.root({
+  size,
+  viewport: Rect.createRanges([-3, 3], [-3, 3]),
+  onKeyDown: (key) => {
+    if (key === 'ArrowUp') {
+      highlightIndex = Math.min(highlightIndex + 1, levels.length - 1);
+    } else if (key === 'ArrowDown') {
+      highlightIndex = Math.max(highlightIndex - 1, 0);
+    } else if (key === '+' || key === '=' || key === '-') {
+      const highlight = levels[highlightIndex];
+      levelCount = key === '-' ? Math.max(levelCount / 2, 3) : levelCount * 2;
+      levelCount = Math.min(levelCount, 48);
+      levels = niceTicks(...domain, levelCount);
+
+      // Keeps the highlight on the nearest of the new levels
+      highlightIndex = levels.reduce(
+        (best, level, i) =>
+          Math.abs(level - highlight) < Math.abs(levels[best] - highlight)
+            ? i
+            : best,
+        0
+      );
+    } else if (key === 'l') {
+      labels = !labels;
+    }
+  },
+});
+
+graphingCanvas.addColorbar(scale, { label: MathStr('z') });
+
+graphingCanvas.renderers = [
+  (canvas, viewport) => {
+    ContourRenderer(peaks, style, {
+      levels,
+      scale,
+      highlight: levels[highlightIndex],
+      labels,
+    })(canvas, viewport);
+  },
+];
+
+const tickRateMs = 1000 / 60;
+graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, () => {
+  graphingCanvas.render();
+});
@@ -1,4 +1,4 @@
-import { CanvasRenderer, ImplicitFunctionRenderer } from './Plotter';
+import { AdaptivePlotter, ImplicitFunctionRenderer } from './Plotter';
 import { Color } from './src/Color';
 import { GraphingCanvas, MathStr } from './src/GraphingCanvas';
 import { Rect } from './src/Rect';
@@ -6,6 +6,7 @@ import { Vec2 } from './src/Vec2';
 import { Matrix } from './src/Matrix';
 import { Canvas } from './src/Canvas';
 import { createSlider, createRow } from './domHelpers';
+import { closestPointOnGraph } from './src/ClosestPoint';
 
 const size = 400;
 
@@ -55,18 +56,24 @@ const element = document.getElementById('app')!;
 // );
 
 const fn = (x: number) => x * x - 1.5;
-const fnRenderer = makeFunctionRenderer(fn, new Color(1, 0, 0), 400);
+const fnRenderer = AdaptivePlotter(fn, {
+  color: new Color(1, 0, 0),
+  thickness: 3,
+});
 
 graphingCanvas.renderers = [
   fnRenderer,
 
-  //makeFunctionRenderer(derivative(fn), new Color(0, 0, 1), 400),
+  //AdaptivePlotter(derivative(fn), { color: new Color(0, 0, 1), thickness: 3 }),
 
   (canvas, viewport) => {
     if (hoverPoint) {
       const x0 = 0.5;
       const anchor = new Vec2(x0, fn(x0));
-      const projectedHoverPoint = new Vec2(hoverPoint.x, fn(hoverPoint.x));
+      const projectedHoverPoint = closestPointOnGraph(fn, hoverPoint, [
+        viewport.origin.x,
+        viewport.farCorner.x,
+      ]).point;
 
       //console.log(projectedHoverPoint);
       drawViewportLine(
@@ -79,7 +86,7 @@ graphingCanvas.renderers = [
       );
       canvas.drawCircle(anchor, canvas.pixelThickness * 10, new Color(0, 0, 1));
       canvas.drawCircle(
-        new Vec2(hoverPoint.x, fn(hoverPoint.x)),
+        projectedHoverPoint,
         canvas.pixelThickness * 10,
         new Color(0, 1, 0)
       );
@@ -131,29 +138,6 @@ graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, () => {
   graphingCanvas.render();
 });
 
-function makeFunctionRenderer(
-  fn: (x: number) => number,
-  color: Color,
-  numSteps: number
-): CanvasRenderer {
-  return (canvas, viewport) => {
-    const minX = viewport.origin.x;
-    const maxX = viewport.farCorner.x;
-
-    let lastPosition: Vec2 | undefined = undefined;
-
-    for (let x = minX; x <= maxX; x += viewport.size.x / (numSteps - 1)) {
-      const y = fn(x);
-      const pos = new Vec2(x, y);
-
-      if (lastPosition) {
-        canvas.drawLine(lastPosition, pos, color, canvas.pixelThickness * 3);
-      }
-      lastPosition = pos;
-    }
-  };
-}
-
 function derivative(
   fn: (x: number) => number,
   h: number = 0.0000001
@@ -0,0 +1,101 @@
+import {
+  addFitPlacard,
+  fitBasis,
+  fitExponential,
+  FitRenderer,
+  FitResult,
+  fitPolynomial,
+} from './src/Fitting';
+import { GraphingCanvas } from './src/GraphingCanvas';
+import { Rect } from './src/Rect';
+import { Vec2 } from './src/Vec2';
+
+const instructions = document.createElement('ul');
+[
+  'Press the 1 to 9 keys to pick a sample, moving the mouse moves it.',
+  'Pressing the 0 key drops the sample and updates the formula.',
+  '"P" fits a polynomial, up and down arrows change its degree.',
+  '"E" fits an exponential, "S" fits a + b sin(x) + c cos(x).',
+  '"R" toggles the residuals.',
+].forEach((str) => {
+  const e = document.createElement('li');
+  e.innerText = str;
+  instructions.appendChild(e);
+});
+document.getElementById('app')!.appendChild(instructions);
+
+const size = 400;
+
+// Exponential growth with some deterministic noise, positive so every model applies
+const samples = Array.from({ length: 9 }, (_, i) => {
+  const x = -3.5 + (7 * i) / 8;
+  const noise = 1 + 0.25 * Math.sin(i * 12.9898);
+  return new Vec2(x, 0.6 * Math.exp(0.45 * x) * noise);
+});
+
+let model: 'polynomial' | 'exponential' | 'sine' = 'polynomial';
+let degree = 2;
+let showResiduals = true;
+let currentPointIndex = -1;
+
+const fit = (): FitResult | undefined => {
+  if (model === 'exponential') {
+    return fitExponential(samples);
+  } else if (model === 'sine') {
+    return fitBasis(samples, [() => 1, Math.sin, Math.cos]);
+  }
+  return fitPolynomial(samples, degree);
+};
+
+// Typesetting is slow, so this only runs on key presses
+const updatePlacard = () => {
+  const result = fit();
+  if (result) {
+    addFitPlacard(graphingCanvas, result);
+  }
+};
+
+const graphingCanvas = GraphingCanvas.root({
+  size,
+  viewport: Rect.createRanges([-4, 4], [-2, 4]),
+  onMouseMove: (p) => {
+    if (currentPointIndex >= 0) {
+      samples[currentPointIndex] = p;
+    }
+  },
+  onKeyDown: (key) => {
+    const index = Number.parseInt(key);
+    if (!Number.isNaN(index) && index >= 0 && index <= samples.length) {
+      currentPointIndex = index - 1;
+    } else if (key === 'p') {
+      model = 'polynomial';
+    } else if (key === 'e') {
+      model = 'exponential';
+    } else if (key === 's') {
+      model = 'sine';
+    } else if (key === 'ArrowUp') {
+      degree = Math.min(degree + 1, samples.length - 1);
+    } else if (key === 'ArrowDown') {
+      degree = Math.max(degree - 1, 0);
+    } else if (key === 'r') {
+      showResiduals = !showResiduals;
+    }
+    updatePlacard();
+  },
+});
+
+updatePlacard();
+
+graphingCanvas.renderers = [
+  (canvas, viewport) => {
+    const result = fit();
+    if (result) {
+      FitRenderer(samples, result, { showResiduals })(canvas, viewport);
+    }
+  },
+];
+
+const tickRateMs = 1000 / 60;
+graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, () => {
+  graphingCanvas.render();
+});
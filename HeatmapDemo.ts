@@ -0,0 +1,82 @@
+import { CanvasRenderer, HeatmapRenderer, ImplicitFunction } from './Plotter';
+import { ColorScale, RdBu } from './src/ColorScale';
+import { GraphingCanvas, MathStr } from './src/GraphingCanvas';
+import { Rect } from './src/Rect';
+import { Vec2 } from './src/Vec2';
+
+const instructions = document.createElement('ul');
+[
+  'Arrow keys pan and "+" and "-" zoom. Blocks refine once the view stops.',
+  '"S" toggles bilinear smoothing between samples.',
+  '"Q" cycles the finest block size through 1, 2, 4 and 8 device pixels.',
+].forEach((str) => {
+  const e = document.createElement('li');
+  e.innerText = str;
+  instructions.appendChild(e);
+});
+document.getElementById('app')!.appendChild(instructions);
+
+const size = 400;
+
+// Waves from two point sources, interfering
+const field: ImplicitFunction = (x, y) =>
+  Math.sin(4 * Math.hypot(x - 1, y)) + Math.sin(4 * Math.hypot(x + 1, y));
+
+const scale = ColorScale.diverging([-2, 2], 0, RdBu);
+
+let center = Vec2.zero;
+let halfWidth = 4;
+let smooth = false;
+let blockSize = 1;
+
+// The renderer keeps its image between frames, so it is only made again here
+let renderer: CanvasRenderer;
+const updateRenderer = () => {
+  renderer = HeatmapRenderer(field, scale, { blockSize, smooth });
+};
+
+const viewport = () =>
+  Rect.createRanges(
+    [center.x - halfWidth, center.x + halfWidth],
+    [center.y - halfWidth, center.y + halfWidth]
+  );
+
+const graphingCanvas = GraphingCanvas.root({
+  size,
+  viewport: viewport(),
+  onKeyDown: (key) => {
+    const step = halfWidth / 10;
+    if (key === 'ArrowLeft') {
+      center = center.add(new Vec2(-step, 0));
+    } else if (key === 'ArrowRight') {
+      center = center.add(new Vec2(step, 0));
+    } else if (key === 'ArrowUp') {
+      center = center.add(new Vec2(0, step));
+    } else if (key === 'ArrowDown') {
+      center = center.add(new Vec2(0, -step));
+    } else if (key === '+' || key === '=') {
+      halfWidth /= 1.25;
+    } else if (key === '-') {
+      halfWidth *= 1.25;
+    } else if (key === 's') {
+      smooth = !smooth;
+      updateRenderer();
+    } else if (key === 'q') {
+      blockSize = blockSize === 8 ? 1 : blockSize * 2;
+      updateRenderer();
+    }
+    graphingCanvas.viewport = viewport();
+  },
+});
+
+graphingCanvas.setAxisSettingsX({ visible: false });
+graphingCanvas.setAxisSettingsY({ visible: false });
+graphingCanvas.addColorbar(scale, { label: MathStr('z') });
+updateRenderer();
+
+graphingCanvas.renderers = [(canvas, viewport) => renderer(canvas, viewport)];
+
+const tickRateMs = 1000 / 60;
+graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, () => {
+  graphingCanvas.render();
+});
@@ -0,0 +1,104 @@
+import {
+  ImplicitFunction,
+  ImplicitFunctionRenderer,
+  IntervalImplicitFunction,
+  IntervalImplicitRenderer,
+} from './Plotter';
+import { Color } from './src/Color';
+import { GraphingCanvas, MathStr } from './src/GraphingCanvas';
+import { Interval } from './src/Interval';
+import { Rect } from './src/Rect';
+import { Vec2 } from './src/Vec2';
+
+const instructions = document.createElement('ul');
+[
+  'Press the 1 to 8 keys to pick a curve.',
+  '"I" switches between marching squares and interval arithmetic.',
+  'Up and down arrows change the number of marching squares cells.',
+].forEach((str) => {
+  const e = document.createElement('li');
+  e.innerText = str;
+  instructions.appendChild(e);
+});
+document.getElementById('app')!.appendChild(instructions);
+
+const size = 400;
+
+const curves: [string, IntervalImplicitFunction][] = [
+  ['x^2 + y^2 = 4', (x, y) => x.sqr().add(y.sqr()).sub(4)],
+  [
+    '(x^2 + y^2)^2 = 8(x^2 - y^2)',
+    (x, y) => x.sqr().add(y.sqr()).sqr().sub(x.sqr().sub(y.sqr()).mul(8)),
+  ],
+  ['x^3 + y^3 = 3xy', (x, y) => x.pow(3).add(y.pow(3)).sub(x.mul(y).mul(3))],
+  [
+    '\\sin(2x) + \\sin(2y) = 0.2',
+    (x, y) => x.mul(2).sin().add(y.mul(2).sin()).sub(0.2),
+  ],
+  ['y^2 = x^3 - 2x + 1', (x, y) => y.sqr().sub(x.pow(3).sub(x.mul(2)).add(1))],
+  // Sampling misses these: a single point, a double root and a tiny loop
+  ['x^2 + y^2 = 0', (x, y) => x.sqr().add(y.sqr())],
+  ['(x^2 + y^2 - 4)^2 = 0', (x, y) => x.sqr().add(y.sqr()).sub(4).sqr()],
+  ['x^2 + y^2 = 0.001', (x, y) => x.sqr().add(y.sqr()).sub(0.001)],
+];
+
+// The same functions on plain numbers, for marching squares
+const pointwise =
+  (fn: IntervalImplicitFunction): ImplicitFunction =>
+  (x, y) =>
+    fn(Interval.point(x), Interval.point(y)).midpoint;
+
+let curveIndex = 0;
+let resolution = 64;
+let useIntervals = false;
+
+const style = { color: new Color(0.1, 0.3, 0.9), thickness: 2 };
+
+// Typesetting is slow, so this only runs on key presses
+const updatePlacard = () => {
+  graphingCanvas.addPlacard(
+    'curve',
+    MathStr(
+      `${curves[curveIndex][0]} \\quad ` +
+        (useIntervals
+          ? '\\text{(intervals)}'
+          : `(${resolution} \\text{ cells})`)
+    ),
+    { canvasPosition: new Vec2(0.5, 1), anchor: new Vec2(0.5, 1) }
+  );
+};
+
+const graphingCanvas = GraphingCanvas.root({
+  size,
+  viewport: Rect.createRanges([-4, 4], [-4, 4]),
+  onKeyDown: (key) => {
+    const index = Number.parseInt(key);
+    if (!Number.isNaN(index) && index >= 1 && index <= curves.length) {
+      curveIndex = index - 1;
+    } else if (key === 'ArrowUp') {
+      resolution = Math.min(resolution * 2, 512);
+    } else if (key === 'ArrowDown') {
+      resolution = Math.max(resolution / 2, 4);
+    } else if (key === 'i') {
+      useIntervals = !useIntervals;
+    }
+    updatePlacard();
+  },
+});
+
+updatePlacard();
+
+graphingCanvas.renderers = [
+  (canvas, viewport) => {
+    const [, fn] = curves[curveIndex];
+    const renderer = useIntervals
+      ? IntervalImplicitRenderer(fn, style.color)
+      : ImplicitFunctionRenderer(pointwise(fn), style, resolution);
+    renderer(canvas, viewport);
+  },
+];
+
+const tickRateMs = 1000 / 60;
+graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, () => {
+  graphingCanvas.render();
+});
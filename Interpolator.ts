@@ -1,4 +1,5 @@
 import { Color } from './src/Color';
+import { solveCyclicTridiagonal, solveTridiagonal } from './src/Matrix';
 import { Vec2 } from './src/Vec2';
 
 export type ParametricEquation = (t: number) => Vec2;
@@ -27,6 +28,27 @@ function remapParameterToSubRange(
   }
 }
 
+// Like `remapParameterToSubRange`, for sub ranges from knots[i] to
+// knots[i + 1], where the knots increase from 0 to 1.
+function remapParameterToKnots(
+  parameter: number,
+  knots: number[]
+): { parameter: number; index: number } {
+  const count = knots.length - 1;
+  if (parameter <= 0) {
+    return { parameter: 0, index: 0 };
+  } else if (parameter >= 1) {
+    return { parameter: 1, index: count - 1 };
+  }
+
+  let index = 0;
+  while (index < count - 1 && knots[index + 1] <= parameter) {
+    index++;
+  }
+  const subT = (parameter - knots[index]) / (knots[index + 1] - knots[index]);
+  return { parameter: subT, index };
+}
+
 export const LineSegmentsInterpolator: Interpolator<Vec2[]> = (pts) => {
   const numSegments = pts.length - 1;
   if (numSegments < 1) {
@@ -39,113 +61,269 @@ export const LineSegmentsInterpolator: Interpolator<Vec2[]> = (pts) => {
   };
 };
 
-export const QuadraticInterpolator: Interpolator<[Vec2, Vec2, Vec2]> = ([
-  a,
-  b,
-  c,
-]) => {
-  return (t) => {
+/*
+  What the spline does at its ends:
+
+  'natural'   zero curvature at the first and last point.
+  'clamped'   leaves the first and last point along the given tangents,
+              measured per segment (as for the Hermite segments below).
+  'periodic'  closes the curve into a loop that is C2 everywhere, including
+              where it joins back up with the first point.
+*/
+export type CubicSplineBoundary =
+  | { type: 'natural' }
+  | { type: 'clamped'; startTangent: Vec2; endTangent: Vec2 }
+  | { type: 'periodic' };
+
+/*
+  Fits one cubic per segment such that position, tangent and curvature all
+  agree where neighbouring segments meet (C2 continuity).
+
+  With each segment's parameter u in [0, 1] the curve between p_i and
+  p_{i+1} is
+
+    S(u) = (1 - u)p_i + u p_{i+1}
+         + ((1 - u)^3 - (1 - u))M_i / 6 + (u^3 - u)M_{i+1} / 6
+
+  where M_i is the second derivative at p_i. Matching the first derivatives
+  at every inner point gives one equation per point,
+
+    M_{i-1} + 4M_i + M_{i+1} = 6(p_{i+1} - 2p_i + p_{i-1})
+
+  which is tridiagonal, so it can be solved in O(n).
+*/
+export const CubicSplineInterpolator =
+  (boundary: CubicSplineBoundary = { type: 'natural' }): Interpolator<Vec2[]> =>
+  (pts) => {
+    const n = pts.length;
+    const closed = boundary.type === 'periodic';
+
+    if (n < 2 || (closed && n < 3)) {
+      return LineSegmentsInterpolator(closed ? [...pts, pts[0]] : pts);
+    }
+
+    const secondDerivatives = (component: 'x' | 'y') => {
+      const y = pts.map((p) => p.get(component));
+
+      const lower = new Array<number>(n).fill(1);
+      const diagonal = new Array<number>(n).fill(4);
+      const upper = new Array<number>(n).fill(1);
+      const rhs = y.map((_, i) => {
+        const prev = y[(i - 1 + n) % n];
+        const next = y[(i + 1) % n];
+        return 6 * (next - 2 * y[i] + prev);
+      });
+
+      if (boundary.type === 'periodic') {
+        return solveCyclicTridiagonal(lower, diagonal, upper, rhs);
+      }
+
+      if (boundary.type === 'natural') {
+        diagonal[0] = diagonal[n - 1] = 1;
+        upper[0] = lower[n - 1] = 0;
+        rhs[0] = rhs[n - 1] = 0;
+      } else {
+        const start = boundary.startTangent.get(component);
+        const end = boundary.endTangent.get(component);
+
+        diagonal[0] = diagonal[n - 1] = 2;
+        rhs[0] = 6 * (y[1] - y[0] - start);
+        rhs[n - 1] = 6 * (end - (y[n - 1] - y[n - 2]));
+      }
+
+      return solveTridiagonal(lower, diagonal, upper, rhs);
+    };
+
+    const mx = secondDerivatives('x');
+    const my = secondDerivatives('y');
+    const m = mx.map((x, i) => new Vec2(x, my[i]));
+
+    const numSegments = closed ? n : n - 1;
+
+    return (t) => {
+      const { parameter: u, index } = remapParameterToSubRange(t, numSegments);
+      const next = (index + 1) % n;
+      const v = 1 - u;
+
+      return Vec2.linearCombination(
+        [v, pts[index]],
+        [u, pts[next]],
+        [(v * v * v - v) / 6, m[index]],
+        [(u * u * u - u) / 6, m[next]]
+      );
+    };
+  };
+
+/*
+  Where the parameter values ("knots") for each point sit in [0, 1].
+
+  'uniform'   spaces the knots evenly, which is what the hand derivations
+              below use. High degree polynomials through uniform knots
+              wiggle wildly near the ends (Runge's phenomenon).
+  'chebyshev' clusters the knots towards the ends, which tames the wiggle.
+  number[]    uses the given knots as is, one per point. Throws when the
+              count does not match.
+*/
+export type KnotSpacing = 'uniform' | 'chebyshev' | number[];
+
+export function parameterKnots(count: number, spacing: KnotSpacing): number[] {
+  if (Array.isArray(spacing)) {
+    if (spacing.length !== count) {
+      throw new Error(
+        `parameterKnots: expected ${count} knots, one per point, got ${spacing.length}`
+      );
+    }
+    return [...spacing];
+  }
+
+  if (count === 1) {
+    return [0];
+  }
+
+  return Array.from({ length: count }, (_, i) => {
+    const u = i / (count - 1);
+    return spacing === 'chebyshev' ? (1 - Math.cos(Math.PI * u)) / 2 : u;
+  });
+}
+
+export const PolynomialInterpolator =
+  (spacing: KnotSpacing = 'uniform'): Interpolator<Vec2[]> =>
+  (pts) => {
+    const n = pts.length;
+    if (n < 2) {
+      return () => pts[0] ?? Vec2.zero;
+    }
+
+    const knots = parameterKnots(n, spacing);
+
     /*
-      We want to find a parabola that goes through points a, b, c.
-      We can find a function f such that:
-        f(0) = a
-        f(1) = b
-        f(2) = c
+      The polynomial f of degree n - 1 with f(knot_i) = pts_i, in Lagrange
+      form: a blend of the points, each weighted by the polynomial that is 1
+      at its own knot and 0 at all the others. The "barycentric" way of
+      writing it,
+
+              sum_i w_i / (t - t_i) pts_i
+        f(t) = ---------------------------,   w_i = 1 / prod_{j != i} (t_i - t_j)
+              sum_i w_i / (t - t_i)
+
+      needs no linear system, unlike solving for the coefficients of 1, t,
+      t^2 ..., which loses all precision past a couple dozen points.
+      Common factors cancel out of the weights, so the differences are
+      scaled by 4 to keep the products from underflowing for many points.
+    */
+    const weights = knots.map((ti, i) =>
+      knots.reduce((w, tj, j) => (i === j ? w : w / (4 * (ti - tj))), 1)
+    );
+    if (!weights.every(Number.isFinite)) {
+      throw new Error('PolynomialInterpolator: the knots must be distinct');
+    }
+
+    return (t) => {
+      let x = 0;
+      let y = 0;
+      let sum = 0;
+      for (let i = 0; i < n; i++) {
+        if (t === knots[i]) {
+          return pts[i];
+        }
+        const w = weights[i] / (t - knots[i]);
+        x += w * pts[i].x;
+        y += w * pts[i].y;
+        sum += w;
+      }
+      return new Vec2(x / sum, y / sum);
+    };
+  };
 
-      We want a curve to go through 3 points so we can use a degree 2
-      polynomial (a "parabola" or a "quadratic curve"). E.g. we want
-      to find u, v, and w such that
+/*
+  We want to find a parabola that goes through points a, b, c.
+  We can find a function f such that:
+    f(0) = a
+    f(1) = b
+    f(2) = c
 
-      f(t) = ut^2 + vt + w
+  We want a curve to go through 3 points so we can use a degree 2
+  polynomial (a "parabola" or a "quadratic curve"). E.g. we want
+  to find u, v, and w such that
 
-      has the properties outlined above. Note that u, v, and w are scalars!
+  f(t) = ut^2 + vt + w
 
-      So, f(0) = a says:
+  has the properties outlined above. Note that u, v, and w are scalars!
 
-      f(0) = u*0^2 + v*0 + w = w
+  So, f(0) = a says:
 
-      therefore w = a and we now can write:
+  f(0) = u*0^2 + v*0 + w = w
 
-      f(t) = ut^2 + vt + a
+  therefore w = a and we now can write:
 
-      and simply find u and v! Let's look at f(1) = c next:
+  f(t) = ut^2 + vt + a
 
-      f(1) = u*1^2 + v*1 + a = u + v + a
+  and simply find u and v! Let's look at f(1) = c next:
 
-      Therefore c = u + v + a, or v = c - u - a. So we can write
+  f(1) = u*1^2 + v*1 + a = u + v + a
 
-      f(t) = ut^2 + (c - u - a)t + a
+  Therefore c = u + v + a, or v = c - u - a. So we can write
 
-      And just find u! Let's use f(0.5) = b
+  f(t) = ut^2 + (c - u - a)t + a
 
-      f(0.5) = u*(0.5)^2 + (c - u - a)*0.5 + a
-             = u/4 + c/2 - u/2 - a/2 + a
-             = -u/4 + c/2 + a/2
+  And just find u! Let's use f(0.5) = b
 
-      So b = -u/4 + c/2 + a/2
-       u/4 = c/2 + a/2 - b
-         u = 2c + 2a - 4b
+  f(0.5) = u*(0.5)^2 + (c - u - a)*0.5 + a
+         = u/4 + c/2 - u/2 - a/2 + a
+         = -u/4 + c/2 + a/2
 
-      So there is our expression for u, the we end with:
+  So b = -u/4 + c/2 + a/2
+   u/4 = c/2 + a/2 - b
+     u = 2c + 2a - 4b
 
-      f(t) = (2a - 4b + 2c)t^2 + (-3a + 4b - c)t + a
+  So there is our expression for u, the we end with:
 
-      Fun fact, if we want to use matrices we can actually do this:
+  f(t) = (2a - 4b + 2c)t^2 + (-3a + 4b - c)t + a
 
-                                                          |  1  |
-      f(t) = | a      -3a + 4b - c       2a - 4b + 2c | * |  t  |
-                                                          | t^2 |
+  Fun fact, if we want to use matrices we can actually do this:
 
-      Remember that a, b, c are VECTORS so we actually have a matrix that has
-      vectors inside of it...!
-                             |  1  -3   2 |   |  1  |
-      f(t) = |  a  b  c  | * |  0   4  -4 | * |  t  |
-                             |  0  -1   2 |   | t^2 |
+                                                      |  1  |
+  f(t) = | a      -3a + 4b - c       2a - 4b + 2c | * |  t  |
+                                                      | t^2 |
 
-      Assuming you have a fast matrix library, you can precompute the matrices on the left and then just build the "t-matrix" and do a mutiplication each frame!
+  Remember that a, b, c are VECTORS so we actually have a matrix that has
+  vectors inside of it...!
+                         |  1  -3   2 |   |  1  |
+  f(t) = |  a  b  c  | * |  0   4  -4 | * |  t  |
+                         |  0  -1   2 |   | t^2 |
 
-      Note, the matrix with vector entries is NOT actually a matrix.
-      It's something called a tensor, and in this case, it's a rank-3 tensor.
+  Assuming you have a fast matrix library, you can precompute the matrices on the left and then just build the "t-matrix" and do a mutiplication each frame!
 
-      Rank-0 tensor: scalar
-      Rank-1 tensor: vector
-      Rank-2 tensor: matrix
-      Rank-3 tensor: 3D array of numbers (with some rules on how it transforms
-                     "A matrix with vectors for entries"
-    */
+  Note, the matrix with vector entries is NOT actually a matrix.
+  It's something called a tensor, and in this case, it's a rank-3 tensor.
 
-    // Recall: f(t) = (2a - 4b + 2c)t^2 + (-3a + 4b - c)t + a
-    return Vec2.linearCombination(
-      [t * t, Vec2.linearCombination([2, a], [-4, b], [2, c])],
-      [t, Vec2.linearCombination([-3, a], [4, b], [-1, c])],
-      [1, a]
-    );
-  };
-};
+  Rank-0 tensor: scalar
+  Rank-1 tensor: vector
+  Rank-2 tensor: matrix
+  Rank-3 tensor: 3D array of numbers (with some rules on how it transforms
+                 "A matrix with vectors for entries"
 
-export const CubicInterpolator: Interpolator<[Vec2, Vec2, Vec2, Vec2]> = ([
-  a,
-  b,
-  c,
-  d,
-]) => {
-  return (t) => {
-    /*
-      TODO: implement using the same approach as quadratic above but
-            find scalars p, q, r, s to create:
+  PolynomialInterpolator finds exactly this polynomial (for any number of
+  points) so the quadratic case is just a polynomial through 3 uniform knots.
+*/
+export const QuadraticInterpolator: Interpolator<[Vec2, Vec2, Vec2]> = (pts) =>
+  PolynomialInterpolator('uniform')(pts);
 
-            f(t) = pt^3 + qt^2 + rt + s
+/*
+  Same as the quadratic case but with
 
-            such that:
+    f(t) = pt^3 + qt^2 + rt + s
 
-            f(0)   = a
-            f(1/3) = b
-            f(2/3) = c
-            f(3/3) = d
-    */
-    return a;
-  };
-};
+  such that:
+
+    f(0)   = a
+    f(1/3) = b
+    f(2/3) = c
+    f(3/3) = d
+*/
+export const CubicInterpolator: Interpolator<[Vec2, Vec2, Vec2, Vec2]> = (
+  pts
+) => PolynomialInterpolator('uniform')(pts);
 
 export const HermiteInterpolator: Interpolator<[Vec2, Vec2, Vec2, Vec2]> = ([
   a,
@@ -155,23 +333,228 @@ export const HermiteInterpolator: Interpolator<[Vec2, Vec2, Vec2, Vec2]> = ([
 ]) => {
   return (t) => {
     /*
-      TODO: implement using the same approach as quadratic above but
-            find scalars p, q, r, s to create:
+      Find scalars p, q, r, s to create:
 
             f(t) = pt^3 + qt^2 + rt + s
 
-            such that:
+      such that:
 
             f(0)   = a
             f'(0)  = b-a
             f'(1)  = d-c
             f(1)   = d
 
-            Note that we are saying the vector (b-a) is the *derivative* at t=0
-            and (d-c) is the *derivative* at t=1.
+      Note that we are saying the vector (b-a) is the *derivative* at t=0
+      and (d-c) is the *derivative* at t=1.
 
-            Hint... what is the derivative of: f(t) = pt^3 + qt^2 + rt + s ?
+      With f'(t) = 3pt^2 + 2qt + r the conditions read s = a, r = b-a,
+      p + q + r + s = d and 3p + 2q + r = d-c. Solving and regrouping by
+      a, b-a, d and d-c gives the Hermite basis used by `hermiteSegment`.
     */
-    return a;
+    return hermiteSegment(a, b.sub(a), d, d.sub(c), t);
   };
 };
+
+/*
+  A cubic that starts at p0 heading along m0 and ends at p1 heading along m1:
+
+    f(t) = (2t^3 - 3t^2 + 1)p0 + (t^3 - 2t^2 + t)m0
+         + (-2t^3 + 3t^2)p1    + (t^3 - t^2)m1
+*/
+function hermiteSegment(
+  p0: Vec2,
+  m0: Vec2,
+  p1: Vec2,
+  m1: Vec2,
+  t: number
+): Vec2 {
+  const t2 = t * t;
+  const t3 = t2 * t;
+
+  return Vec2.linearCombination(
+    [2 * t3 - 3 * t2 + 1, p0],
+    [t3 - 2 * t2 + t, m0],
+    [-2 * t3 + 3 * t2, p1],
+    [t3 - t2, m1]
+  );
+}
+
+// Neighbouring control point, reflecting the end points of open curves so
+// that the first and last segments still have something to aim at.
+function splineNeighbour(pts: Vec2[], index: number, closed: boolean): Vec2 {
+  const n = pts.length;
+
+  if (closed) {
+    return pts[((index % n) + n) % n];
+  } else if (index < 0) {
+    return pts[0].lerp(pts[1], index);
+  } else if (index >= n) {
+    return pts[n - 1].lerp(pts[n - 2], n - 1 - index);
+  } else {
+    return pts[index];
+  }
+}
+
+// Strings together one Hermite segment per pair of neighbouring points.
+// `tangents(i)` gives the outgoing tangent at point i and the incoming
+// tangent at point i + 1. `span(i)` is how much of the parameter range
+// segment i gets relative to the others, all the same without it.
+function hermiteSpline(
+  pts: Vec2[],
+  closed: boolean,
+  tangents: (index: number) => [Vec2, Vec2],
+  span: (index: number) => number = () => 1
+): ParametricEquation {
+  const numSegments = closed ? pts.length : pts.length - 1;
+  if (pts.length < 2) {
+    return () => pts[0] ?? Vec2.zero;
+  }
+
+  const segments = Array.from({ length: numSegments }, (_, i) => {
+    const [m0, m1] = tangents(i);
+    return {
+      p0: pts[i],
+      p1: splineNeighbour(pts, i + 1, closed),
+      m0,
+      m1,
+    };
+  });
+
+  const knots = [0];
+  for (let i = 0; i < numSegments; i++) {
+    knots.push(knots[i] + span(i));
+  }
+  const total = knots[numSegments];
+  const normalizedKnots = knots.map((knot) => knot / total);
+
+  return (t) => {
+    const { parameter, index } = remapParameterToKnots(t, normalizedKnots);
+    const { p0, m0, p1, m1 } = segments[index];
+    return hermiteSegment(p0, m0, p1, m1, parameter);
+  };
+}
+
+/*
+  How far apart the knots of neighbouring points are, |p_{i+1} - p_i|^alpha:
+
+  'uniform'     alpha = 0, every segment gets the same parameter range. Can
+                overshoot and form cusps or loops around tight corners.
+  'centripetal' alpha = 0.5, never forms cusps or self-intersections within
+                a segment.
+  'chordal'     alpha = 1, knots proportional to the distance between points.
+*/
+export type CatmullRomParameterization = 'uniform' | 'centripetal' | 'chordal';
+
+const catmullRomAlpha: { [P in CatmullRomParameterization]: number } = {
+  uniform: 0,
+  centripetal: 0.5,
+  chordal: 1,
+};
+
+export const CatmullRomInterpolator =
+  (
+    options: {
+      parameterization?: CatmullRomParameterization;
+      closed?: boolean;
+    } = {}
+  ): Interpolator<Vec2[]> =>
+  (pts) => {
+    const alpha = catmullRomAlpha[options.parameterization ?? 'centripetal'];
+    const closed = options.closed ?? false;
+
+    const knotInterval = (a: Vec2, b: Vec2) => {
+      const dt = Math.pow(a.distance(b), alpha);
+      return dt < 1e-6 ? 1 : dt;
+    };
+
+    // Each segment spans its knot interval, so the tangents below, which
+    // are scaled to it, join up smoothly in the curve's parameter too
+    const span = (i: number) =>
+      knotInterval(
+        splineNeighbour(pts, i, closed),
+        splineNeighbour(pts, i + 1, closed)
+      );
+
+    return hermiteSpline(
+      pts,
+      closed,
+      (i) => {
+        const p0 = splineNeighbour(pts, i - 1, closed);
+        const p1 = splineNeighbour(pts, i, closed);
+        const p2 = splineNeighbour(pts, i + 1, closed);
+        const p3 = splineNeighbour(pts, i + 2, closed);
+
+        const dt0 = knotInterval(p0, p1);
+        const dt1 = knotInterval(p1, p2);
+        const dt2 = knotInterval(p2, p3);
+
+        /*
+        Tangents of the non-uniform Catmull-Rom curve at p1 and p2, measured
+        against the knot parameter and then rescaled (by dt1) to this
+        segment's [0, 1] parameter range.
+      */
+        const m1 = Vec2.linearCombination(
+          [1 / dt0, p1.sub(p0)],
+          [-1 / (dt0 + dt1), p2.sub(p0)],
+          [1 / dt1, p2.sub(p1)]
+        ).scale(dt1);
+
+        const m2 = Vec2.linearCombination(
+          [1 / dt1, p2.sub(p1)],
+          [-1 / (dt1 + dt2), p3.sub(p1)],
+          [1 / dt2, p3.sub(p2)]
+        ).scale(dt1);
+
+        return [m1, m2];
+      },
+      span
+    );
+  };
+
+/*
+  tension     > 0 tightens the curve towards straight lines, < 0 loosens it.
+  bias        > 0 leans the tangent towards the previous point, < 0 the next.
+  continuity  0 keeps the curve C1 smooth; anything else makes corners.
+
+  All zero gives the uniform Catmull-Rom curve.
+*/
+export type KochanekBartelsSettings = {
+  tension: number;
+  bias: number;
+  continuity: number;
+};
+
+export const KochanekBartelsInterpolator =
+  (
+    options: Partial<KochanekBartelsSettings> & { closed?: boolean } = {}
+  ): Interpolator<Vec2[]> =>
+  (pts) => {
+    const { tension = 0, bias = 0, continuity = 0 } = options;
+    const closed = options.closed ?? false;
+
+    const s = 1 - tension;
+    const outgoingWeights = [
+      (s * (1 + bias) * (1 + continuity)) / 2,
+      (s * (1 - bias) * (1 - continuity)) / 2,
+    ];
+    const incomingWeights = [
+      (s * (1 + bias) * (1 - continuity)) / 2,
+      (s * (1 - bias) * (1 + continuity)) / 2,
+    ];
+
+    const tangent = (index: number, weights: number[]) => {
+      const prev = splineNeighbour(pts, index - 1, closed);
+      const curr = splineNeighbour(pts, index, closed);
+      const next = splineNeighbour(pts, index + 1, closed);
+
+      return Vec2.linearCombination(
+        [weights[0], curr.sub(prev)],
+        [weights[1], next.sub(curr)]
+      );
+    };
+
+    return hermiteSpline(pts, closed, (i) => [
+      tangent(i, outgoingWeights),
+      tangent(i + 1, incomingWeights),
+    ]);
+  };
@@ -0,0 +1,103 @@
+import { createRow, createSlider } from './domHelpers';
+import { GraphingCanvas, MathStr } from './src/GraphingCanvas';
+import {
+  LinearTransformationRenderer,
+  pingPongAmount,
+} from './src/LinearTransformation';
+import { Complex, Matrix } from './src/Matrix';
+import { Rect } from './src/Rect';
+import { Vec2 } from './src/Vec2';
+
+const instructions = document.createElement('ul');
+[
+  'The sliders set the entries of the matrix [[a, b], [c, d]].',
+  'The grid animates back and forth between the identity and the matrix.',
+  'Dashed orange lines are the eigenvectors, purple lines the singular axes.',
+  'Press "space" to pause the animation at the matrix.',
+].forEach((str) => {
+  const e = document.createElement('li');
+  e.innerText = str;
+  instructions.appendChild(e);
+});
+
+const element = document.getElementById('app')!;
+element.appendChild(instructions);
+
+const size = 400;
+
+// Row major, i.e. [a, b, c, d] is the matrix [[a, b], [c, d]]
+const entries = [1, 1, 0, 1];
+let paused = false;
+let elapsedTime = 0;
+
+const matrix = () =>
+  Matrix.withVec2Columns(
+    new Vec2(entries[0], entries[2]),
+    new Vec2(entries[1], entries[3])
+  );
+
+const graphingCanvas = GraphingCanvas.root({
+  size,
+  viewport: Rect.createRanges([-4, 4], [-4, 4]),
+  onKeyDown: (key) => {
+    if (key === ' ') {
+      paused = !paused;
+    }
+  },
+});
+
+const format = (x: number) => (Math.abs(x) < 5e-3 ? 0 : x).toFixed(2);
+const formatComplex = ({ re, im }: Complex) =>
+  im === 0
+    ? format(re)
+    : `${format(re)} ${im < 0 ? '-' : '+'} ${format(Math.abs(im))}i`;
+
+// Only rebuilt when the matrix changes, typesetting is too slow for every frame
+const updatePlacard = () => {
+  const [a, b, c, d] = entries.map(format);
+  const eigenvalues = matrix().eigenvalues().map(formatComplex).join(', ');
+  const singularValues = matrix().svd().singularValues.map(format).join(', ');
+
+  graphingCanvas.addPlacard(
+    'matrix',
+    MathStr(
+      `\\begin{pmatrix} ${a} & ${b} \\\\ ${c} & ${d} \\end{pmatrix}` +
+        `\\quad \\lambda = ${eigenvalues}` +
+        `\\quad \\sigma = ${singularValues}`
+    ),
+    {
+      canvasPosition: new Vec2(0.5, 1),
+      anchor: new Vec2(0.5, 1),
+    }
+  );
+};
+
+element.appendChild(
+  createRow(
+    ...['a', 'b', 'c', 'd'].map((label, i) =>
+      createSlider(
+        { min: -3, max: 3, initialValue: entries[i], stepSize: 0.05, label },
+        (value) => {
+          entries[i] = value;
+          updatePlacard();
+        }
+      )
+    )
+  )
+);
+
+updatePlacard();
+
+graphingCanvas.renderers = [
+  (canvas, viewport) => {
+    LinearTransformationRenderer(matrix(), {
+      amount: paused ? 1 : pingPongAmount(elapsedTime, 2),
+    })(canvas, viewport);
+  },
+];
+
+const tickRateMs = 1000 / 60;
+graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, (_, time) => {
+  elapsedTime = time;
+  graphingCanvas.render();
+});
@@ -0,0 +1,91 @@
+import { Matrix, VecN, VecNDot } from './src/Matrix';
+
+/*
+  Times matrix products three ways:
+
+  - the product Matrix computed before its entries moved into a
+    Float64Array: nested column arrays, each row gathered into a new array
+    and dotted with the column, as a baseline
+  - Matrix.mul, which allocates its result
+  - Matrix.mulInto, which reuses one result matrix
+
+  Results go to the console and, in a browser, to the page.
+*/
+
+// Columns of entries, the layout Matrix used to store
+type PreviousMatrix = VecN<number>[];
+
+function previousWithProvider(
+  n: number,
+  f: (row: number, column: number) => number
+): PreviousMatrix {
+  return Array.from({ length: n }, (_, column) =>
+    Array.from({ length: n }, (_, row) => f(row, column))
+  );
+}
+
+function previousRowAtIndex(m: PreviousMatrix, row: number): VecN<number> {
+  return m.map((_, column) => m[column][row]);
+}
+
+function previousMulVecN(m: PreviousMatrix, vec: VecN<number>): VecN<number> {
+  return Array.from({ length: m[0].length }, (_, row) =>
+    VecNDot(previousRowAtIndex(m, row), vec)
+  );
+}
+
+function previousMul(a: PreviousMatrix, b: PreviousMatrix): PreviousMatrix {
+  return Array.from({ length: b.length }, (_, column) =>
+    previousMulVecN(a, b[column])
+  );
+}
+
+function time(iterations: number, fn: () => void): number {
+  // Warm up so the JIT has compiled everything before timing starts
+  for (let i = 0; i < Math.min(iterations, 1000); i++) {
+    fn();
+  }
+
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) {
+    fn();
+  }
+  return ((performance.now() - start) * 1e6) / iterations;
+}
+
+const lines: string[] = [];
+
+[2, 3, 4, 8, 32].forEach((n) => {
+  const entry = (row: number, column: number) => Math.sin(row * 7 + column * 3);
+  const iterations = Math.max(100, Math.round(2e6 / n ** 3));
+
+  const previousA = previousWithProvider(n, entry);
+  const previousB = previousWithProvider(n, (row, column) =>
+    entry(column, row)
+  );
+  const a = Matrix.withProvider({ rows: n, columns: n }, ({ row, column }) =>
+    entry(row, column)
+  );
+  const b = Matrix.withProvider({ rows: n, columns: n }, ({ row, column }) =>
+    entry(column, row)
+  );
+  const out = Matrix.zero({ rows: n, columns: n });
+
+  const previous = time(iterations, () => previousMul(previousA, previousB));
+  const mul = time(iterations, () => a.mul(b));
+  const mulInto = time(iterations, () => a.mulInto(b, out));
+
+  lines.push(
+    `${n}x${n}: previous mul ${previous.toFixed(0)} ns, ` +
+      `mul ${mul.toFixed(0)} ns (${(previous / mul).toFixed(1)}x), ` +
+      `mulInto ${mulInto.toFixed(0)} ns (${(previous / mulInto).toFixed(1)}x)`
+  );
+});
+
+lines.forEach((line) => console.log(line));
+
+if (typeof document !== 'undefined') {
+  const pre = document.createElement('pre');
+  pre.innerText = lines.join('\n');
+  document.getElementById('app')?.appendChild(pre);
+}
@@ -1,5 +1,7 @@
 import { Canvas } from './src/Canvas';
-import { Color } from './src/Color';
+import { BlendMode, Color } from './src/Color';
+import { ColorScale, niceTicks } from './src/ColorScale';
+import { Interval } from './src/Interval';
 import { Rect } from './src/Rect';
 import { Vec2 } from './src/Vec2';
 
@@ -7,10 +9,13 @@ export type PlotStyle = {
   thickness: number;
   color: Color;
   dashPattern?: number[];
+  blendMode?: BlendMode;
 };
 
 export type ExplicitFunction = (x: number) => number;
 export type ImplicitFunction = (x: number, y: number) => number;
+// Bounds an implicit function over a rectangle, see `Interval`
+export type IntervalImplicitFunction = (x: Interval, y: Interval) => Interval;
 
 export type CanvasRenderer = (canvas: Canvas, viewport: Rect) => void;
 
@@ -40,38 +45,954 @@ export function StepPlotter(
   };
 }
 
+export type AdaptivePlotOptions = {
+  // Most evaluations of the function per frame, including the first pass
+  sampleBudget: number;
+  // How far in pixels a drawn segment may stray from the curve
+  tolerance: number;
+  // Turn in radians between neighbouring segments that calls for more samples
+  maxAngle: number;
+  // Width in pixels below which intervals are not split further
+  minWidth: number;
+};
+
+const defaultAdaptivePlotOptions: AdaptivePlotOptions = {
+  sampleBudget: 4000,
+  tolerance: 0.25,
+  maxAngle: (5 * Math.PI) / 180,
+  minWidth: 1 / 16,
+};
+
+/*
+  Samples fn across the viewport, densely where it bends and sparsely where
+  it is straight, as seen at the given pixel size. Returns the pieces of the
+  graph: it is broken wherever fn is NaN or infinite and at jumps, which are
+  intervals that stay steep however far they are split, like the poles of
+  tan(x) or the steps of floor(x).
+*/
+export function sampleFunction(
+  fn: ExplicitFunction,
+  viewport: Rect,
+  pixelSize: Vec2,
+  options: Partial<AdaptivePlotOptions> = {}
+): { polylines: Vec2[][]; samples: number } {
+  const { sampleBudget, tolerance, maxAngle, minWidth } = {
+    ...defaultAdaptivePlotOptions,
+    ...options,
+  };
+
+  const minX = viewport.origin.x;
+  const width = viewport.size.x;
+  const widthPixels = width * pixelSize.x;
+
+  // Far enough outside the viewport that clamping y there is not visible
+  const minY = viewport.origin.y - viewport.size.y;
+  const maxY = viewport.farCorner.y + viewport.size.y;
+
+  let samples = 0;
+  const evaluate = (x: number) => {
+    samples++;
+    return new Vec2(x, fn(x));
+  };
+  const isFinite = (p: Vec2) => Number.isFinite(p.y);
+  const toPixels = (p: Vec2) => p.componentMul(pixelSize);
+
+  const polylines: Vec2[][] = [];
+  let current: Vec2[] | undefined;
+
+  const penUp = () => {
+    current = undefined;
+  };
+  const addPoint = (p: Vec2) => {
+    if (!current) {
+      current = [];
+      polylines.push(current);
+    }
+    current.push(new Vec2(p.x, Math.min(Math.max(p.y, minY), maxY)));
+  };
+
+  // Whether the chord a-b misses the curve through m
+  const isCoarse = (a: Vec2, m: Vec2, b: Vec2) => {
+    const pa = toPixels(a);
+    const pm = toPixels(m);
+    const pb = toPixels(b);
+
+    const chord = pb.sub(pa);
+    const chordLength = chord.magnitude();
+    const error =
+      chordLength === 0
+        ? pm.distance(pa)
+        : Math.abs(chord.x * (pm.y - pa.y) - chord.y * (pm.x - pa.x)) /
+          chordLength;
+    if (error > tolerance) {
+      return true;
+    }
+
+    const first = pm.sub(pa);
+    const second = pb.sub(pm);
+    if (first.magnitude() < 0.5 || second.magnitude() < 0.5) {
+      return false;
+    }
+    const angle = Math.atan2(
+      Math.abs(first.x * second.y - first.y * second.x),
+      first.dot(second)
+    );
+    return angle > maxAngle;
+  };
+
+  // Off to the same side of the viewport, where no detail can be seen
+  const isHidden = (...points: Vec2[]) =>
+    points.every((p) => p.y > maxY) || points.every((p) => p.y < minY);
+
+  // A rise in pixels that is too much for a single pixel column
+  const jumpRise = Math.max(4 * tolerance, 2);
+
+  const splitRatio = 0.4675;
+  const goldenRatio = (1 + Math.sqrt(5)) / 2;
+
+  // A piece of the graph, (a, b], with the rise of the piece it was split from
+  type Piece = {
+    a: Vec2;
+    b: Vec2;
+    parentRise: number;
+    settled: boolean;
+    // Still wanted samples when the budget ran out
+    unresolved: boolean;
+  };
+
+  /*
+    Splits a piece in two if it is steep, coarse or only partly finite.
+    Steep pieces are split down to the minimum width: across a jump one half
+    keeps all of the rise, while a steep but continuous piece shares it out
+    between the halves. The split is a little off center, so functions that
+    repeat with the grid spacing are not aliased.
+  */
+  const refine = (piece: Piece): Piece[] | undefined => {
+    const { a, b } = piece;
+    const finite = isFinite(a) && isFinite(b);
+    const intervalWidth = (b.x - a.x) * pixelSize.x;
+    const rise = Math.abs(b.y - a.y) * pixelSize.y;
+
+    if (intervalWidth <= minWidth || !(isFinite(a) || isFinite(b))) {
+      return undefined;
+    }
+    if (samples >= sampleBudget) {
+      piece.unresolved = true;
+      return undefined;
+    }
+
+    const m = evaluate(a.x + (b.x - a.x) * splitRatio);
+    const steep = intervalWidth < 1 && rise > jumpRise;
+    const split =
+      !finite ||
+      !isFinite(m) ||
+      (!isHidden(a, m, b) && (steep || isCoarse(a, m, b)));
+    if (!split) {
+      return undefined;
+    }
+
+    const half = (a: Vec2, b: Vec2): Piece => ({
+      a,
+      b,
+      parentRise: rise,
+      settled: false,
+      unresolved: false,
+    });
+    return [half(a, m), half(m, b)];
+  };
+
+  /*
+    Adds the graph over (a, b], a has already been added or is not finite.
+    The graph is broken at the jumps: pieces at the minimum width, or left
+    unresolved by the budget, which still keep most of their parent's rise.
+  */
+  const addPiece = ({ a, b, parentRise, unresolved }: Piece) => {
+    if (!isFinite(b)) {
+      penUp();
+    } else if (!isFinite(a)) {
+      penUp();
+      addPoint(b);
+    } else {
+      const atMinWidth = (b.x - a.x) * pixelSize.x <= minWidth;
+      const rise = Math.abs(b.y - a.y) * pixelSize.y;
+      const jumps =
+        (atMinWidth || unresolved) &&
+        rise > jumpRise &&
+        rise > 0.75 * parentRise &&
+        !isHidden(a, b);
+      if (jumps) {
+        penUp();
+      }
+      addPoint(b);
+    }
+  };
+
+  /*
+    An even first pass, so running out of budget still covers the viewport.
+    The inner grid points are jittered by up to a quarter of the spacing, in
+    the same way every frame, which keeps periodic functions from hiding
+    between them.
+  */
+  const intervals = Math.min(
+    Math.max(Math.ceil(widthPixels / 2), 8),
+    Math.floor(sampleBudget / 4)
+  );
+  const grid = Array.from({ length: intervals + 1 }, (_, i) => {
+    const jitter =
+      i === 0 || i === intervals ? 0 : (((i * goldenRatio) % 1) - 0.5) / 2;
+    return evaluate(minX + (width * (i + jitter)) / intervals);
+  });
+
+  // Refined breadth first, so the budget is shared out across the viewport
+  let pieces: Piece[] = grid.slice(1).map((b, i) => ({
+    a: grid[i],
+    b,
+    parentRise: Infinity,
+    settled: false,
+    unresolved: false,
+  }));
+  while (pieces.some((piece) => !piece.settled)) {
+    pieces = pieces.flatMap((piece) => {
+      if (piece.settled) {
+        return [piece];
+      }
+      const halves = refine(piece);
+      if (!halves) {
+        piece.settled = true;
+        return [piece];
+      }
+      return halves;
+    });
+  }
+
+  if (isFinite(grid[0])) {
+    addPoint(grid[0]);
+  }
+  pieces.forEach(addPiece);
+
+  return { polylines, samples };
+}
+
+// Plots fn with `sampleFunction`, sampling again every frame for the current viewport
+export function AdaptivePlotter(
+  fn: ExplicitFunction,
+  style: PlotStyle,
+  options: Partial<AdaptivePlotOptions> = {}
+): CanvasRenderer {
+  return (canvas, viewport) => {
+    const { polylines } = sampleFunction(
+      fn,
+      viewport,
+      canvas.pixelSize,
+      options
+    );
+
+    canvas.drawPath(style, ({ moveTo, lineTo }) => {
+      polylines.forEach((polyline) => {
+        polyline.forEach((p, i) => (i === 0 ? moveTo(p) : lineTo(p)));
+      });
+    });
+  };
+}
+
+/*
+  Segments between the crossings on the edges of a cell, for each case of
+  which corners are above the level: bit 1 is the bottom left corner, then
+  bottom right, top right and top left. Edges are 0 bottom, 1 right, 2 top
+  and 3 left. The two saddle cases, 5 and 10, list the segments for a cell
+  whose center is below the level.
+*/
+const marchingSquaresCases: [number, number][][] = [
+  [],
+  [[3, 0]],
+  [[0, 1]],
+  [[3, 1]],
+  [[1, 2]],
+  [
+    [3, 0],
+    [1, 2],
+  ],
+  [[0, 2]],
+  [[3, 2]],
+  [[2, 3]],
+  [[0, 2]],
+  [
+    [0, 1],
+    [2, 3],
+  ],
+  [[1, 2]],
+  [[3, 1]],
+  [[0, 1]],
+  [[3, 0]],
+  [],
+];
+
+// Offsets (i, j, i, j) of the corners at the two ends of each edge
+const marchingSquaresEdges = [
+  [0, 0, 1, 0],
+  [1, 0, 1, 1],
+  [0, 1, 1, 1],
+  [0, 0, 0, 1],
+];
+
+// The saddle cases again, for cells whose center is above the level
+const marchingSquaresSaddles: { [cellCase: number]: [number, number][] } = {
+  5: [
+    [0, 1],
+    [2, 3],
+  ],
+  10: [
+    [3, 0],
+    [1, 2],
+  ],
+};
+
+/*
+  The curve fn(x, y) = level inside rect, traced with marching squares on a
+  grid of columns x rows cells. Crossings are placed along cell edges by
+  linear interpolation, and fn is evaluated at the center of saddle cells to
+  tell which way they connect. Returns polylines, closed ones end with the
+  same Vec2 object they start with. Where fn is NaN or infinite the curve
+  stops at the last cell edge with finite values at both ends.
+*/
+export function marchingSquares(
+  fn: ImplicitFunction,
+  rect: Rect,
+  options: { columns: number; rows: number; level?: number }
+): Vec2[][] {
+  const [{ polylines }] = contourLines(fn, rect, {
+    ...options,
+    levels: [options.level ?? 0],
+  });
+  return polylines;
+}
+
+export type Contour = { level: number; polylines: Vec2[][] };
+
+/*
+  `marchingSquares` for several levels, sampling the grid once. A number of
+  levels picks about that many round levels between the smallest and
+  largest values on the grid.
+*/
+export function contourLines(
+  fn: ImplicitFunction,
+  rect: Rect,
+  options: { columns: number; rows: number; levels: number[] | number }
+): Contour[] {
+  const { columns, rows } = options;
+  const dx = rect.width / columns;
+  const dy = rect.height / rows;
+  const position = (i: number, j: number) =>
+    new Vec2(rect.origin.x + i * dx, rect.origin.y + j * dy);
+
+  const values = Array.from({ length: (columns + 1) * (rows + 1) }, (_, k) => {
+    const { x, y } = position(k % (columns + 1), Math.floor(k / (columns + 1)));
+    return fn(x, y);
+  });
+  const value = (i: number, j: number) => values[j * (columns + 1) + i];
+
+  let levels = options.levels;
+  if (typeof levels === 'number') {
+    const finite = values.filter(Number.isFinite);
+    const min = finite.reduce((a, b) => Math.min(a, b), Infinity);
+    const max = finite.reduce((a, b) => Math.max(a, b), -Infinity);
+    levels = niceTicks(min, max, levels).filter((l) => min < l && l < max);
+  }
+
+  /*
+    Crossings are identified by their edge, so neighbouring cells share
+    them: horizontal edges first, then vertical ones.
+  */
+  const firstVerticalEdge = (rows + 1) * columns;
+  const edgeId = (i: number, j: number, edge: number) =>
+    edge === 0
+      ? j * columns + i
+      : edge === 2
+      ? (j + 1) * columns + i
+      : firstVerticalEdge + j * (columns + 1) + (edge === 1 ? i + 1 : i);
+
+  const traceLevel = (level: number) => {
+    const crossings = new Map<number, Vec2>();
+    const crossing = (i: number, j: number, edge: number) => {
+      const id = edgeId(i, j, edge);
+      if (!crossings.has(id)) {
+        const [ai, aj, bi, bj] = marchingSquaresEdges[edge].map((d, k) =>
+          k % 2 === 0 ? i + d : j + d
+        );
+        const a = value(ai, aj);
+        const b = value(bi, bj);
+        crossings.set(
+          id,
+          position(ai, aj).lerp(position(bi, bj), (level - a) / (b - a))
+        );
+      }
+      return id;
+    };
+
+    // Every crossing is on at most two segments, one from each cell beside it
+    const neighbours = new Map<number, number[]>();
+    const connect = (a: number, b: number) => {
+      neighbours.set(a, [...(neighbours.get(a) ?? []), b]);
+      neighbours.set(b, [...(neighbours.get(b) ?? []), a]);
+    };
+
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < columns; i++) {
+        const corners = [
+          value(i, j),
+          value(i + 1, j),
+          value(i + 1, j + 1),
+          value(i, j + 1),
+        ];
+        /*
+          Next to a NaN or infinite corner only the edges between two finite
+          corners have crossings, which are joined when there are two.
+        */
+        if (!corners.every(Number.isFinite)) {
+          const crossed = [0, 1, 2, 3].filter((edge) => {
+            const a = corners[edge];
+            const b = corners[(edge + 1) % 4];
+            return (
+              Number.isFinite(a) &&
+              Number.isFinite(b) &&
+              a > level !== b > level
+            );
+          });
+          if (crossed.length === 2) {
+            connect(crossing(i, j, crossed[0]), crossing(i, j, crossed[1]));
+          }
+          continue;
+        }
+
+        const cellCase = corners.reduce(
+          (bits, v, k) => (v > level ? bits | (1 << k) : bits),
+          0
+        );
+        let segments = marchingSquaresCases[cellCase];
+        if (cellCase in marchingSquaresSaddles) {
+          const { x, y } = position(i + 0.5, j + 0.5);
+          if (fn(x, y) > level) {
+            segments = marchingSquaresSaddles[cellCase];
+          }
+        }
+
+        segments.forEach(([a, b]) => {
+          connect(crossing(i, j, a), crossing(i, j, b));
+        });
+      }
+    }
+
+    // Open chains first, starting at their ends, then the loops that are left
+    const visited = new Set<number>();
+    const trace = (start: number) => {
+      const ids = [start];
+      visited.add(start);
+      let current = start;
+      for (;;) {
+        const next = neighbours.get(current)!.find((id) => !visited.has(id));
+        if (next === undefined) {
+          break;
+        }
+        ids.push(next);
+        visited.add(next);
+        current = next;
+      }
+
+      const points = ids.map((id) => crossings.get(id)!);
+      const closed = ids.length > 2 && neighbours.get(current)!.includes(start);
+      return closed ? [...points, points[0]] : points;
+    };
+
+    const polylines: Vec2[][] = [];
+    neighbours.forEach((ids, id) => {
+      if (ids.length === 1 && !visited.has(id)) {
+        polylines.push(trace(id));
+      }
+    });
+    neighbours.forEach((_, id) => {
+      if (!visited.has(id)) {
+        polylines.push(trace(id));
+      }
+    });
+    return polylines;
+  };
+
+  return levels.map((level) => ({ level, polylines: traceLevel(level) }));
+}
+
+/*
+  Draws the curve fn(x, y) = 0 with `marchingSquares`, on a grid `resolution`
+  cells across and with about square cells on screen.
+*/
 export function ImplicitFunctionRenderer(
-  count: number,
-  fn: (x: number, y: number) => number,
-  color: Color
+  fn: ImplicitFunction,
+  style: PlotStyle,
+  resolution: number = 128
+): CanvasRenderer {
+  return (canvas, viewport) => {
+    const { x, y } = viewport.size.componentMul(canvas.pixelSize);
+    const polylines = marchingSquares(fn, viewport, {
+      columns: resolution,
+      rows: Math.max(Math.round((resolution * y) / x), 1),
+    });
+
+    canvas.drawPath(style, ({ moveTo, lineTo }) => {
+      polylines.forEach((polyline) => {
+        polyline.forEach((p, i) => (i === 0 ? moveTo(p) : lineTo(p)));
+      });
+    });
+  };
+}
+
+export type ContourOptions = {
+  // The levels to draw, or about how many round levels to pick in view
+  levels: number[] | number;
+  // Colors each line by its level, otherwise they are all in the style color
+  scale?: ColorScale;
+  /*
+    A level drawn twice as thick and labelled first, like the index contours
+    of a topographic map. It is drawn even when it is not one of `levels`.
+  */
+  highlight?: number;
+  labels: boolean;
+  // Pixels along a line between the centers of its labels
+  labelSpacing: number;
+  fontSize: number;
+  // Marching squares cells across the viewport
+  resolution: number;
+};
+
+const defaultContourOptions: ContourOptions = {
+  levels: 10,
+  labels: true,
+  labelSpacing: 300,
+  fontSize: 11,
+  resolution: 128,
+};
+
+/*
+  Draws the curves fn(x, y) = level with `contourLines`. Labels showing the
+  level are set into gaps in the lines, turned along them, and left out
+  where the line bends too much under them or they would overlap another
+  label or the edge of the viewport.
+*/
+export function ContourRenderer(
+  fn: ImplicitFunction,
+  style: PlotStyle,
+  options: Partial<ContourOptions> = {}
+): CanvasRenderer {
+  const {
+    levels,
+    scale,
+    highlight,
+    labels,
+    labelSpacing,
+    fontSize,
+    resolution,
+  } = {
+    ...defaultContourOptions,
+    ...options,
+  };
+
+  return (canvas, viewport) => {
+    const { pixelSize } = canvas;
+    const { x, y } = viewport.size.componentMul(pixelSize);
+    const grid = {
+      columns: resolution,
+      rows: Math.max(Math.round((resolution * y) / x), 1),
+    };
+
+    let contours = contourLines(fn, viewport, { ...grid, levels });
+    let highlighted: Contour | undefined = undefined;
+    if (highlight !== undefined) {
+      // Levels that print the same are the same, despite rounding noise
+      highlighted = contours.find(
+        ({ level }) => formatLevel(level) === formatLevel(highlight)
+      ) ?? {
+        level: highlight,
+        polylines: marchingSquares(fn, viewport, { ...grid, level: highlight }),
+      };
+      // Last to be drawn on top, but first to get room for its labels
+      contours = [
+        ...contours.filter((contour) => contour !== highlighted),
+        highlighted,
+      ];
+    }
+
+    const toPixels = (p: Vec2) => p.componentMul(pixelSize);
+    const bounds = new Rect(toPixels(viewport.origin), new Vec2(x, y));
+    const placed: Rect[] = [];
+
+    const drawn = [...contours].reverse().map((contour) => {
+      const { level, polylines } = contour;
+      const isHighlight = contour === highlighted;
+      const color = scale?.color(level) ?? style.color;
+      const text = formatLevel(level);
+      const textStyle = { fontSize, bold: isHighlight };
+      // Half the length of line the label takes up, with some room around it
+      const half = canvas.measureText(text, textStyle).x / 2 + fontSize / 3;
+
+      const texts: { position: Vec2; angle: number }[] = [];
+      const pieces = polylines.flatMap((polyline) => {
+        const lengths = [0];
+        for (let i = 1; i < polyline.length; i++) {
+          const step = toPixels(polyline[i].sub(polyline[i - 1])).magnitude();
+          lengths.push(lengths[i - 1] + step);
+        }
+        const length = lengths[lengths.length - 1];
+        if (!labels || length < 4 * half) {
+          return [polyline];
+        }
+
+        const count = Math.max(Math.floor(length / labelSpacing), 1);
+        const gaps: [number, number][] = [];
+        for (let k = 0; k < count; k++) {
+          const s = ((k + 0.5) * length) / count;
+          const start = toPixels(pointAtLength(polyline, lengths, s - half));
+          const end = toPixels(pointAtLength(polyline, lengths, s + half));
+          const chord = end.sub(start);
+          if (chord.magnitude() < 1.8 * half) {
+            continue;
+          }
+
+          // Turned by up to a quarter turn either way, to read left to right
+          let angle = chord.polarAngleRad();
+          if (angle > Math.PI / 2) {
+            angle -= Math.PI;
+          } else if (angle < -Math.PI / 2) {
+            angle += Math.PI;
+          }
+
+          const position = pointAtLength(polyline, lengths, s);
+          const cos = Math.abs(Math.cos(angle));
+          const sin = Math.abs(Math.sin(angle));
+          const extent = new Vec2(
+            cos * half + (sin * fontSize) / 2,
+            sin * half + (cos * fontSize) / 2
+          );
+          const box = new Rect(toPixels(position).sub(extent), extent.scale(2));
+          if (
+            !bounds.contains(box.origin) ||
+            !bounds.contains(box.farCorner) ||
+            placed.some((other) => other.intersects(box))
+          ) {
+            continue;
+          }
+
+          placed.push(box);
+          gaps.push([s - half, s + half]);
+          texts.push({ position, angle });
+        }
+        return cutPolyline(polyline, lengths, gaps);
+      });
+
+      return { color, text, textStyle, pieces, texts, isHighlight };
+    });
+
+    drawn.reverse().forEach(({ color, pieces, isHighlight }) => {
+      canvas.drawPath(
+        {
+          ...style,
+          color,
+          thickness: style.thickness * (isHighlight ? 2 : 1),
+        },
+        ({ moveTo, lineTo }) => {
+          pieces.forEach((piece) => {
+            piece.forEach((p, i) => (i === 0 ? moveTo(p) : lineTo(p)));
+          });
+        }
+      );
+    });
+
+    drawn.forEach(({ color, text, textStyle, texts }) => {
+      texts.forEach(({ position, angle }) => {
+        canvas.drawText(text, position, color, { ...textStyle, angle });
+      });
+    });
+  };
+}
+
+// Drops the floating point noise of computed levels, e.g. 0.30000000000000004
+function formatLevel(level: number) {
+  return String(Number(level.toPrecision(6)));
+}
+
+// The point at arc length s along a polyline, given the arc lengths of its points
+function pointAtLength(points: Vec2[], lengths: number[], s: number) {
+  let i = 1;
+  while (i < points.length - 1 && lengths[i] < s) {
+    i++;
+  }
+  const segment = lengths[i] - lengths[i - 1];
+  const t = segment > 0 ? (s - lengths[i - 1]) / segment : 0;
+  return points[i - 1].lerp(points[i], Math.min(Math.max(t, 0), 1));
+}
+
+// The parts of a polyline outside the gaps, sorted intervals of arc length
+function cutPolyline(
+  points: Vec2[],
+  lengths: number[],
+  gaps: [number, number][]
+): Vec2[][] {
+  const length = lengths[lengths.length - 1];
+  const pieces: Vec2[][] = [];
+
+  let start = 0;
+  [...gaps, [length, length]].forEach(([from, to]) => {
+    if (from > start) {
+      pieces.push([
+        pointAtLength(points, lengths, start),
+        ...points.filter((_, i) => start < lengths[i] && lengths[i] < from),
+        pointAtLength(points, lengths, from),
+      ]);
+    }
+    start = to;
+  });
+  return pieces;
+}
+
+export type QuadtreeCell = {
+  rect: Rect;
+  /*
+    fn changes sign between the corners and is bounded on the cell, so it has
+    no pole there and the curve crosses the cell, assuming fn is continuous
+    wherever it is bounded, as it is when built from `Interval` operations.
+  */
+  proven: boolean;
+};
+
+/*
+  The cells of at most a pixel where fn(x, y) = 0 may hold. Starting from
+  rect, cells are split in four for as long as fn, evaluated on the whole
+  cell, can not rule out a zero inside it, so thin features and isolated
+  points are never missed, unlike with sampling. Cells are split level by
+  level, and when `cellBudget` evaluations run out the remaining cells are
+  kept at the size they have.
+*/
+export function quadtreeImplicit(
+  fn: IntervalImplicitFunction,
+  rect: Rect,
+  pixelSize: Vec2,
+  cellBudget: number = 50000
+): QuadtreeCell[] {
+  const cells: QuadtreeCell[] = [];
+  const pointValue = (x: number, y: number) =>
+    fn(Interval.point(x), Interval.point(y)).midpoint;
+
+  let evaluations = 0;
+  let level = [rect];
+  while (level.length > 0) {
+    const next: Rect[] = [];
+
+    level.forEach((cell, index) => {
+      const { origin, farCorner } = cell;
+      evaluations++;
+      const range = fn(
+        new Interval(origin.x, farCorner.x),
+        new Interval(origin.y, farCorner.y)
+      );
+      if (range.isEmpty || !range.contains(0)) {
+        return;
+      }
+
+      const splitX = cell.width * pixelSize.x > 1;
+      const splitY = cell.height * pixelSize.y > 1;
+      const pieces = (splitX ? 2 : 1) * (splitY ? 2 : 1);
+      // Evaluations so far, for the rest of this level and for the next one
+      const needed =
+        evaluations + (level.length - index - 1) + next.length + pieces;
+
+      if (pieces > 1 && needed <= cellBudget) {
+        const size = new Vec2(
+          cell.width / (splitX ? 2 : 1),
+          cell.height / (splitY ? 2 : 1)
+        );
+        for (let i = 0; i < (splitX ? 2 : 1); i++) {
+          for (let j = 0; j < (splitY ? 2 : 1); j++) {
+            next.push(
+              new Rect(origin.add(size.componentMul(new Vec2(i, j))), size)
+            );
+          }
+        }
+        return;
+      }
+
+      const corners = [
+        pointValue(origin.x, origin.y),
+        pointValue(farCorner.x, origin.y),
+        pointValue(origin.x, farCorner.y),
+        pointValue(farCorner.x, farCorner.y),
+      ];
+      const proven =
+        Number.isFinite(range.min) &&
+        Number.isFinite(range.max) &&
+        corners.some((v) => v <= 0) &&
+        corners.some((v) => v >= 0);
+      cells.push({ rect: cell, proven });
+    });
+
+    level = next;
+  }
+
+  return cells;
+}
+
+/*
+  Fills the cells from `quadtreeImplicit`, those the curve may only possibly
+  cross see-through.
+*/
+export function IntervalImplicitRenderer(
+  fn: IntervalImplicitFunction,
+  color: Color,
+  cellBudget?: number
+): CanvasRenderer {
+  const possibleColor = color.withAlpha(color.a * 0.35);
+
+  return (canvas, viewport) => {
+    quadtreeImplicit(fn, viewport, canvas.pixelSize, cellBudget).forEach(
+      ({ rect, proven }) => {
+        canvas.drawRect(rect, {
+          fillColor: proven ? color : possibleColor,
+        });
+      }
+    );
+  };
+}
+
+export type HeatmapOptions = {
+  // Device pixels across each sample once refined, 1 samples every pixel
+  blockSize: number;
+  // Block size right after the view changes, halved on every frame after
+  coarseBlockSize: number;
+  // Interpolates bilinearly between samples instead of filling blocks
+  smooth: boolean;
+};
+
+const defaultHeatmapOptions: HeatmapOptions = {
+  blockSize: 1,
+  coarseBlockSize: 16,
+  smooth: false,
+};
+
+/*
+  Fills the viewport with the colors of fn(x, y) through scale, sampled on
+  a grid of blocks of device pixels and written into an `ImageData`. While
+  the view keeps changing, e.g. when panning, only coarse blocks are
+  sampled; once it stops they are refined over the next frames and the
+  finished image is kept until the view changes again. fn should not change
+  over time, as finished images are not sampled again.
+*/
+export function HeatmapRenderer(
+  fn: ImplicitFunction,
+  scale: ColorScale,
+  options: Partial<HeatmapOptions> = {}
 ): CanvasRenderer {
+  const { blockSize, coarseBlockSize, smooth } = {
+    ...defaultHeatmapOptions,
+    ...options,
+  };
+  const palette = colorTable(scale);
+
+  let view: string | undefined = undefined;
+  let block = blockSize;
+  let raster: { image: ImageData; rect: Rect } | undefined = undefined;
+
   return (canvas, viewport) => {
-    const minX = viewport.origin.x;
-    const width = viewport.size.x;
+    const { devicePixelSize } = canvas;
+    const key = [...viewport.components, ...devicePixelSize.components].join();
 
-    const minY = viewport.origin.y;
-    const height = viewport.size.y;
+    if (key !== view || !raster) {
+      view = key;
+      block = Math.max(coarseBlockSize, blockSize);
+    } else if (block > blockSize) {
+      block = Math.max(Math.floor(block / 2), blockSize);
+    } else {
+      canvas.drawImageData(raster.image, raster.rect);
+      return;
+    }
 
-    const dx = width / (count - 1);
-    const dy = height / (count - 1);
+    // Whole device pixels, so the image may reach a little past the viewport
+    const width = Math.max(Math.ceil(viewport.width * devicePixelSize.x), 1);
+    const height = Math.max(Math.ceil(viewport.height * devicePixelSize.y), 1);
+    const rect = new Rect(
+      viewport.origin,
+      new Vec2(width, height).componentDiv(devicePixelSize)
+    );
 
-    for (let i = 0; i < count; i++) {
-      for (let j = 0; j < count; j++) {
-        const x = minX + i * dx;
-        const y = minY + j * dy;
+    // Samples at the centers of the blocks, top row first like the image
+    const columns = Math.ceil(width / block);
+    const rows = Math.ceil(height / block);
+    const samples = new Float64Array(columns * rows);
+    for (let r = 0; r < rows; r++) {
+      const y = rect.farCorner.y - ((r + 0.5) * block) / devicePixelSize.y;
+      for (let c = 0; c < columns; c++) {
+        const x = rect.origin.x + ((c + 0.5) * block) / devicePixelSize.x;
+        samples[r * columns + c] = fn(x, y);
+      }
+    }
 
-        const fc = fn(x, y);
-        const fl = fn(x - dx / 2, y);
-        const fr = fn(x + dx / 2, y);
-        const fu = fn(x, y + dy / 2);
-        const fd = fn(x, y - dy / 2);
+    const image = new ImageData(width, height);
+    for (let py = 0; py < height; py++) {
+      for (let px = 0; px < width; px++) {
+        let value =
+          samples[Math.floor(py / block) * columns + Math.floor(px / block)];
 
-        const differingSigns = [fl, fr, fu, fd].some((f) => f * fc < 0);
+        if (smooth) {
+          const u = Math.min(
+            Math.max((px + 0.5) / block - 0.5, 0),
+            columns - 1
+          );
+          const v = Math.min(Math.max((py + 0.5) / block - 0.5, 0), rows - 1);
+          const c0 = Math.floor(u);
+          const r0 = Math.floor(v);
+          const c1 = Math.min(c0 + 1, columns - 1);
+          const r1 = Math.min(r0 + 1, rows - 1);
+          const fu = u - c0;
+          const fv = v - r0;
 
-        if (differingSigns) {
-          canvas.drawCircle(new Vec2(x, y), 0.01, color);
+          const top =
+            samples[r0 * columns + c0] * (1 - fu) +
+            samples[r0 * columns + c1] * fu;
+          const bottom =
+            samples[r1 * columns + c0] * (1 - fu) +
+            samples[r1 * columns + c1] * fu;
+          const blended = top * (1 - fv) + bottom * fv;
+          // Next to NaN or infinite samples the blocks stay as they are
+          if (Number.isFinite(blended)) {
+            value = blended;
+          }
+        }
+
+        const t = scale.normalize(value);
+        const entry = Number.isNaN(t)
+          ? colorTableSize
+          : Math.round(t * (colorTableSize - 1));
+        const offset = 4 * (py * width + px);
+        for (let k = 0; k < 4; k++) {
+          image.data[offset + k] = palette[4 * entry + k];
         }
       }
     }
+
+    raster = { image, rect };
+    canvas.drawImageData(image, rect);
   };
 }
+
+const colorTableSize = 1024;
+
+// The RGBA bytes of a scale along its colormap, then of its NaN color
+function colorTable(scale: ColorScale) {
+  const table = new Uint8ClampedArray(4 * (colorTableSize + 1));
+  for (let i = 0; i <= colorTableSize; i++) {
+    const { r, g, b, a } =
+      i < colorTableSize
+        ? scale.colorAt(i / (colorTableSize - 1))
+        : scale.nanColor;
+    table.set(
+      [r, g, b, a].map((x) => Math.round(x * 255)),
+      4 * i
+    );
+  }
+  return table;
+}
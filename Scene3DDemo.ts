@@ -0,0 +1,122 @@
+import {
+  axes3D,
+  OrbitCamera,
+  sampleCurve3D,
+  Scene3DItem,
+  surfaceWireframe,
+} from './src/Camera3D';
+import { Color } from './src/Color';
+import { GraphingCanvas } from './src/GraphingCanvas';
+import { Rect } from './src/Rect';
+import { Vec3 } from './src/Vec3';
+
+const instructions = document.createElement('ul');
+[
+  'Moving the mouse over the canvas orbits the camera.',
+  'Pressing "+" and "-" zooms in and out.',
+  '"O" switches between perspective and orthographic projection.',
+  '"H", "B" and "S" toggle the helix, the Bezier curve and the surface.',
+].forEach((str) => {
+  const e = document.createElement('li');
+  e.innerText = str;
+  instructions.appendChild(e);
+});
+document.getElementById('app')!.appendChild(instructions);
+
+const size = 400;
+
+const controlPoints = [
+  new Vec3(-1.5, 0, -1),
+  new Vec3(-0.5, 2, 1.5),
+  new Vec3(1, -1, 1),
+  new Vec3(1.5, 1.5, -1.5),
+];
+
+// de Casteljau, as in BezierCurve but with Vec3 control points
+const bezier = (t: number): Vec3 => {
+  let pts = controlPoints;
+  while (pts.length > 1) {
+    pts = pts.slice(1).map((p, i) => pts[i].lerp(p, t));
+  }
+  return pts[0];
+};
+
+const helix: Scene3DItem = {
+  type: 'polyline',
+  points: sampleCurve3D(
+    (t) => new Vec3(Math.cos(t), t / (2 * Math.PI) - 1.5, Math.sin(t)),
+    [0, 6 * Math.PI],
+    400
+  ),
+  style: { color: new Color(0.8, 0.4, 0), thickness: 2 },
+};
+
+const bezierItems: Scene3DItem[] = [
+  {
+    type: 'polyline',
+    points: controlPoints,
+    style: { color: Color.grey(0.4), thickness: 1 },
+  },
+  { type: 'points', points: controlPoints, color: Color.grey(0.2) },
+  {
+    type: 'polyline',
+    points: sampleCurve3D(bezier),
+    style: { color: new Color(0.5, 0.2, 0.7), thickness: 3 },
+  },
+];
+
+// The saddle y = (x^2 - z^2) / 2
+const surface: Scene3DItem[] = surfaceWireframe(
+  (u, v) => new Vec3(u, (u * u - v * v) / 2, v),
+  { uRange: [-1.5, 1.5], vRange: [-1.5, 1.5] }
+).map((points) => ({
+  type: 'polyline',
+  points,
+  style: { color: new Color(0.2, 0.5, 0.8), thickness: 1 },
+}));
+
+const camera = new OrbitCamera({ distance: 7 });
+const visible = { helix: true, bezier: true, surface: true };
+
+const graphingCanvas = GraphingCanvas.root({
+  size,
+  viewport: Rect.createRanges([-1, 1], [-1, 1]),
+  onKeyDown: (key) => {
+    if (key === '+' || key === '=') {
+      camera.zoom(1 / 1.1);
+    } else if (key === '-') {
+      camera.zoom(1.1);
+    } else if (key === 'o') {
+      camera.projection =
+        camera.projection === 'perspective' ? 'orthographic' : 'perspective';
+    } else if (key === 'h') {
+      visible.helix = !visible.helix;
+    } else if (key === 'b') {
+      visible.bezier = !visible.bezier;
+    } else if (key === 's') {
+      visible.surface = !visible.surface;
+    }
+  },
+});
+
+graphingCanvas.setAxisSettingsX({ visible: false });
+graphingCanvas.setAxisSettingsY({ visible: false });
+graphingCanvas.backgroundColor = Color.grey(0.95);
+
+camera.attachOrbitControls(graphingCanvas.drawCanvas);
+
+graphingCanvas.renderers = [
+  (canvas, viewport) => {
+    camera.renderer([
+      ...axes3D(2),
+      ...(visible.helix ? [helix] : []),
+      ...(visible.bezier ? bezierItems : []),
+      ...(visible.surface ? surface : []),
+    ])(canvas, viewport);
+  },
+];
+
+const tickRateMs = 1000 / 60;
+graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, () => {
+  graphingCanvas.render();
+});
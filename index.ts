@@ -1,24 +1,51 @@
 import { CanvasRenderer, PlotStyle } from './Plotter';
+import {
+  arcLengthParameterize,
+  ArcLengthParameterizedEquation,
+} from './src/ArcLength';
+import { BSplineInterpolator } from './src/BSpline';
+import {
+  CurveIntersection,
+  IntersectionRenderer,
+  selfIntersections,
+} from './src/Intersection';
+import { strokeOutline } from './src/Stroke';
+import { closestPoint } from './src/ClosestPoint';
+import { DifferentialGeometryOverlay } from './src/DifferentialGeometry';
 import { Color } from './src/Color';
 import { GraphingCanvas } from './src/GraphingCanvas';
 import { Rect } from './src/Rect';
 import { Vec2 } from './src/Vec2';
 
 import {
+  CatmullRomInterpolator,
   CubicInterpolator,
+  CubicSplineInterpolator,
   HermiteInterpolator,
-  LineSegmentInterpolator,
+  Interpolator,
+  KochanekBartelsInterpolator,
   LineSegmentsInterpolator,
   ParametricEquation,
+  PolynomialInterpolator,
   QuadraticInterpolator,
 } from './Interpolator';
 
 const instructions = document.createElement('ul');
 [
-  'Press the 1, 2, 3, or 4 key to change which "dot" is active.',
+  'Press the 1 to 9 keys to change which "dot" is active.',
   'Moving the mouse moves the active dot.',
   'Pressing the 0 key deselects the active dot.',
+  'Pressing "+" adds a dot and "-" removes the last one.',
   '"L" uses line renderer, "Q" quadratic, "C" cubic, and "H" hermite.',
+  '"P" uses a polynomial through every dot, "K" the same with Chebyshev knots.',
+  '"R" uses a Catmull-Rom spline, "O" the same as a closed loop.',
+  '"B" uses a Kochanek-Bartels spline with some extra tension.',
+  '"S" uses a natural cubic spline, "W" a periodic one that wraps around.',
+  '"N" uses a cubic B-spline, which only passes through the first and last dot.',
+  'The small dots are evenly spaced along the curve, the white dot moves at constant speed.',
+  'Red crosses mark where the curve crosses itself.',
+  '"V" toggles drawing the curve as a tapered, variable width stroke.',
+  '"G" toggles the curvature comb, tangent, normal and osculating circle nearest the mouse.',
 ].forEach((str) => {
   const e = document.createElement('li');
   e.innerText = str;
@@ -35,68 +62,171 @@ const interactivePoints = [
   new Vec2(1.25, 0.75),
 ];
 
+type InterpolatorEntry = {
+  interpolator: Interpolator<Vec2[]>;
+  pointCount?: number;
+  // Loops back to the first dot, so it has a segment per dot
+  closed?: boolean;
+};
+
+// For interpolators through a fixed number of dots, which get the first ones
+function withPointCount<Pts extends Vec2[]>(
+  interpolator: Interpolator<Pts>,
+  pointCount: Pts['length']
+): InterpolatorEntry {
+  return {
+    interpolator: (pts) => interpolator(pts.slice(0, pointCount) as Pts),
+    pointCount,
+  };
+}
+
+const interpolators: { [key: string]: InterpolatorEntry } = {
+  l: { interpolator: LineSegmentsInterpolator },
+  q: withPointCount(QuadraticInterpolator, 3),
+  c: withPointCount(CubicInterpolator, 4),
+  h: withPointCount(HermiteInterpolator, 4),
+  p: { interpolator: PolynomialInterpolator('uniform') },
+  k: { interpolator: PolynomialInterpolator('chebyshev') },
+  r: { interpolator: CatmullRomInterpolator() },
+  o: { interpolator: CatmullRomInterpolator({ closed: true }), closed: true },
+  b: { interpolator: KochanekBartelsInterpolator({ tension: 0.5 }) },
+  s: { interpolator: CubicSplineInterpolator({ type: 'natural' }) },
+  w: {
+    interpolator: CubicSplineInterpolator({ type: 'periodic' }),
+    closed: true,
+  },
+  n: { interpolator: BSplineInterpolator({ degree: 3 }) },
+};
+
 let currentPointIndex = -1;
-let numberOfInteractivePoints = 4;
-let interpolatorIndex = 0;
+let interpolatorKey = 'l';
+let elapsedTime = 0;
+let taperedStroke = false;
+let geometryOverlay = false;
+let hoverPoint = Vec2.zero;
+
+/*
+  These searches are too slow to redo every frame, so they are kept until a
+  dot moves or the interpolator changes, and the closest point until the
+  mouse moves.
+*/
+let analysis:
+  | {
+      curve: ParametricEquation;
+      intersections: CurveIntersection[];
+      constantSpeedCurve: ArcLengthParameterizedEquation;
+    }
+  | undefined = undefined;
+let closestParameter: number | undefined = undefined;
+
+function activePoints(): Vec2[] {
+  const { pointCount } = interpolators[interpolatorKey];
+  return interactivePoints.slice(0, pointCount ?? interactivePoints.length);
+}
 
 const graphingCanvas = GraphingCanvas.root({
   size,
   viewport: Rect.createRanges([-2, 2], [-2, 2]),
   onMouseMove: (p) => {
+    hoverPoint = p;
+    closestParameter = undefined;
     if (currentPointIndex >= 0) {
       interactivePoints[currentPointIndex] = p;
+      analysis = undefined;
     }
   },
   onKeyDown: (key) => {
     const index = Number.parseInt(key);
-    if (
-      !Number.isNaN(index) &&
-      index >= 0 &&
-      index <= interactivePoints.length
-    ) {
+    if (!Number.isNaN(index) && index >= 0 && index <= activePoints().length) {
       currentPointIndex = index - 1;
-    } else if (key === 'l') {
-      interpolatorIndex = 0;
-      numberOfInteractivePoints = 4;
-    } else if (key === 'q') {
-      interpolatorIndex = 1;
-      numberOfInteractivePoints = 3;
-    } else if (key === 'c') {
-      interpolatorIndex = 2;
-      numberOfInteractivePoints = 4;
-    } else if (key === 'h') {
-      interpolatorIndex = 3;
-      numberOfInteractivePoints = 4;
+    } else if (key === '+' || key === '=') {
+      interactivePoints.push(Vec2.zero);
+      currentPointIndex = interactivePoints.length - 1;
+      analysis = undefined;
+    } else if (key === '-' && interactivePoints.length > 4) {
+      interactivePoints.pop();
+      currentPointIndex = -1;
+      analysis = undefined;
+    } else if (key === 'g') {
+      geometryOverlay = !geometryOverlay;
+    } else if (key === 'v') {
+      taperedStroke = !taperedStroke;
+    } else if (key in interpolators) {
+      interpolatorKey = key;
+      currentPointIndex = -1;
+      analysis = undefined;
     }
   },
 });
 
+// Evenly spaced OKLCH hues look equally bright, unlike HSV where yellow stands out
 function colorForPointAtIndex(points: Vec2[], index: number) {
-  return Color.fromHSV(index / points.length, 1, 1);
+  return Color.fromOKLCH(0.7, 0.17, index / points.length).toGamut();
 }
 
 graphingCanvas.renderers = [
   (canvas, viewport) => {
-    const interpolator = [
-      LineSegmentsInterpolator,
-      QuadraticInterpolator,
-      CubicInterpolator,
-      HermiteInterpolator,
-    ][interpolatorIndex];
+    const { interpolator, closed } = interpolators[interpolatorKey];
+    const points = activePoints();
 
-    const stepCount =
-      (interpolatorIndex === 0 ? 1 : 100) * (numberOfInteractivePoints - 1);
+    // One step per segment for line segments, so they are sampled at the dots
+    const segmentCount = closed ? points.length : points.length - 1;
+    const stepCount = (interpolatorKey === 'l' ? 1 : 100) * segmentCount;
+
+    if (!analysis) {
+      const curve = interpolator(points);
+      analysis = {
+        curve,
+        intersections: selfIntersections(curve),
+        constantSpeedCurve: arcLengthParameterize(curve),
+      };
+      closestParameter = undefined;
+    }
+    const { curve, intersections, constantSpeedCurve } = analysis;
+
+    if (taperedStroke) {
+      canvas.drawPolygon(
+        strokeOutline(curve, {
+          width: ({ t }) => canvas.pixelThickness * 24 * Math.sin(Math.PI * t),
+          join: 'round',
+          cap: 'round',
+        }),
+        new Color(0.3, 0.3, 0.8)
+      );
+    }
 
     MakeParametricRenderer(
-      interpolator(
-        interactivePoints.slice(0, numberOfInteractivePoints) as any
-      ),
+      curve,
       { stepCount },
       { color: Color.black, thickness: 3 }
     )(canvas, viewport);
 
+    IntersectionRenderer(intersections)(canvas, viewport);
+
+    if (geometryOverlay) {
+      closestParameter ??= closestPoint(curve, hoverPoint).parameter;
+      DifferentialGeometryOverlay(curve, {
+        parameter: closestParameter,
+      }).renderer(canvas, viewport);
+    }
+
+    constantSpeedCurve.evenlySpacedPoints(20).forEach((point) => {
+      canvas.drawCircle(point, canvas.pixelThickness * 4, Color.grey(0.3));
+    });
+
+    const speed = 1; // viewport units per second
+    const distance =
+      constantSpeedCurve.totalLength > 0
+        ? (elapsedTime * speed) % constantSpeedCurve.totalLength
+        : 0;
+    canvas.drawCircle(
+      constantSpeedCurve.pointAtDistance(distance),
+      canvas.pixelThickness * 6,
+      Color.white
+    );
+
     // Render Hermite derivatives as a visual aide
-    if (interpolatorIndex === 3) {
+    if (interpolatorKey === 'h') {
       canvas.drawLine(
         interactivePoints[0],
         interactivePoints[1],
@@ -111,14 +241,12 @@ graphingCanvas.renderers = [
       );
     }
 
-    interactivePoints.forEach((point, index) => {
-      if (index < numberOfInteractivePoints) {
-        canvas.drawCircle(
-          point,
-          canvas.pixelThickness * 10,
-          colorForPointAtIndex(interactivePoints, index)
-        );
-      }
+    points.forEach((point, index) => {
+      canvas.drawCircle(
+        point,
+        canvas.pixelThickness * 10,
+        colorForPointAtIndex(points, index)
+      );
     });
   },
 ];
@@ -151,6 +279,7 @@ function MakeParametricRenderer(
 }
 
 const tickRateMs = 1000 / 60;
-graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, () => {
+graphingCanvas.drawCanvas.runRenderLoop(tickRateMs, (_, time) => {
+  elapsedTime = time;
   graphingCanvas.render();
 });
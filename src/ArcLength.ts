@@ -0,0 +1,222 @@
+import { ParametricEquation } from '../Interpolator';
+import { parametricNumericDerivative } from './Derivative';
+import { Vec2 } from './Vec2';
+
+export type ArcLengthOptions = {
+  integration?: 'gauss-legendre' | 'simpson';
+  // Number of intervals in the cumulative length table
+  tableSize?: number;
+  // Absolute length error allowed per table interval
+  tolerance?: number;
+  // Step used for the numeric derivative of the curve
+  derivativeStep?: number;
+};
+
+export type ArcLengthParameterizedEquation = ParametricEquation & {
+  readonly totalLength: number;
+  parameterAtDistance: (distance: number) => number;
+  pointAtDistance: (distance: number) => Vec2;
+  distanceAtParameter: (t: number) => number;
+  evenlySpacedPoints: (count: number) => Vec2[];
+};
+
+type Integrator = (
+  f: (t: number) => number,
+  a: number,
+  b: number,
+  tolerance: number
+) => number;
+
+const gaussLegendreNodes = [
+  [0, 0.5688888888888889],
+  [-0.5384693101056831, 0.4786286704993665],
+  [0.5384693101056831, 0.4786286704993665],
+  [-0.906179845938664, 0.2369268850561891],
+  [0.906179845938664, 0.2369268850561891],
+];
+
+function gaussLegendre(f: (t: number) => number, a: number, b: number) {
+  const half = (b - a) / 2;
+  const mid = (a + b) / 2;
+
+  return (
+    half *
+    gaussLegendreNodes.reduce((sum, [x, w]) => sum + w * f(mid + half * x), 0)
+  );
+}
+
+const adaptiveGaussLegendre: Integrator = (f, a, b, tolerance) => {
+  const recurse = (a: number, b: number, whole: number, depth: number) => {
+    const m = (a + b) / 2;
+    const left = gaussLegendre(f, a, m);
+    const right = gaussLegendre(f, m, b);
+
+    if (depth > 20 || Math.abs(left + right - whole) < tolerance) {
+      return left + right;
+    }
+
+    return recurse(a, m, left, depth + 1) + recurse(m, b, right, depth + 1);
+  };
+
+  return recurse(a, b, gaussLegendre(f, a, b), 0);
+};
+
+const adaptiveSimpson: Integrator = (f, a, b, tolerance) => {
+  const simpson = (a: number, fa: number, fm: number, b: number, fb: number) =>
+    ((b - a) / 6) * (fa + 4 * fm + fb);
+
+  const recurse = (
+    a: number,
+    fa: number,
+    m: number,
+    fm: number,
+    b: number,
+    fb: number,
+    whole: number,
+    tolerance: number,
+    depth: number
+  ): number => {
+    const lm = (a + m) / 2;
+    const rm = (m + b) / 2;
+    const flm = f(lm);
+    const frm = f(rm);
+    const left = simpson(a, fa, flm, m, fm);
+    const right = simpson(m, fm, frm, b, fb);
+    const delta = left + right - whole;
+
+    if (depth > 20 || Math.abs(delta) < 15 * tolerance) {
+      // Richardson extrapolation
+      return left + right + delta / 15;
+    }
+
+    return (
+      recurse(a, fa, lm, flm, m, fm, left, tolerance / 2, depth + 1) +
+      recurse(m, fm, rm, frm, b, fb, right, tolerance / 2, depth + 1)
+    );
+  };
+
+  const m = (a + b) / 2;
+  const fa = f(a);
+  const fm = f(m);
+  const fb = f(b);
+  return recurse(a, fa, m, fm, b, fb, simpson(a, fa, fm, b, fb), tolerance, 0);
+};
+
+/*
+  Reparameterizes a curve on [0, 1] so that equal steps in the parameter
+  cover equal distances along the curve.
+
+  The length s(t) = integral of |eqn'(t)| is tabulated once. Inverting it for
+  a distance finds the table interval by binary search and then polishes the
+  parameter with Newton's method, using ds/dt = |eqn'(t)|.
+*/
+export function arcLengthParameterize(
+  eqn: ParametricEquation,
+  options: ArcLengthOptions = {}
+): ArcLengthParameterizedEquation {
+  const tableSize = options.tableSize ?? 64;
+  const tolerance = options.tolerance ?? 1e-7;
+  const dt = options.derivativeStep ?? 1e-5;
+  const integrate =
+    options.integration === 'simpson' ? adaptiveSimpson : adaptiveGaussLegendre;
+
+  const speed = (t: number) =>
+    parametricNumericDerivative(t, eqn, dt).magnitude();
+
+  const parameters = Array.from(
+    { length: tableSize + 1 },
+    (_, i) => i / tableSize
+  );
+  const distances = [0];
+  for (let i = 1; i <= tableSize; i++) {
+    distances.push(
+      distances[i - 1] +
+        integrate(speed, parameters[i - 1], parameters[i], tolerance)
+    );
+  }
+
+  const length = distances[tableSize];
+
+  // Index of the last table entry at or below the distance
+  const tableIndex = (distance: number) => {
+    let low = 0;
+    let high = tableSize;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (distances[mid] <= distance) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  };
+
+  const distanceAtParameter = (t: number) => {
+    if (t <= 0) {
+      return 0;
+    } else if (t >= 1) {
+      return length;
+    }
+
+    const index = Math.min(Math.floor(t * tableSize), tableSize - 1);
+    return distances[index] + integrate(speed, parameters[index], t, tolerance);
+  };
+
+  const parameterAtDistance = (distance: number) => {
+    if (distance <= 0) {
+      return 0;
+    } else if (distance >= length) {
+      return 1;
+    }
+
+    const index = tableIndex(distance);
+    let lower = parameters[index];
+    let upper = parameters[index + 1];
+
+    const d0 = distances[index];
+    const d1 = distances[index + 1];
+    let t =
+      d1 > d0 ? lower + ((distance - d0) / (d1 - d0)) * (upper - lower) : lower;
+
+    for (let i = 0; i < 16; i++) {
+      const error =
+        d0 + integrate(speed, parameters[index], t, tolerance) - distance;
+      if (Math.abs(error) < tolerance) {
+        break;
+      }
+
+      if (error > 0) {
+        upper = t;
+      } else {
+        lower = t;
+      }
+
+      // Fall back to bisection when Newton leaves the bracket (e.g. near cusps)
+      const v = speed(t);
+      const newton = v > 0 ? t - error / v : NaN;
+      t = newton > lower && newton < upper ? newton : (lower + upper) / 2;
+    }
+
+    return t;
+  };
+
+  const pointAtDistance = (distance: number) =>
+    eqn(parameterAtDistance(distance));
+
+  const evenlySpacedPoints = (count: number) =>
+    Array.from({ length: count }, (_, i) =>
+      pointAtDistance(count > 1 ? (i / (count - 1)) * length : 0)
+    );
+
+  const reparameterized: ParametricEquation = (u) =>
+    pointAtDistance(u * length);
+
+  return Object.assign(reparameterized, {
+    totalLength: length,
+    parameterAtDistance,
+    pointAtDistance,
+    distanceAtParameter,
+    evenlySpacedPoints,
+  });
+}
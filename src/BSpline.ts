@@ -0,0 +1,305 @@
+import { Interpolator, ParametricEquation } from '../Interpolator';
+import { CanvasRenderer, PlotStyle } from '../Plotter';
+import { Color } from './Color';
+import { Rect } from './Rect';
+import { Vec2 } from './Vec2';
+
+/*
+  'uniform'       evenly spaced knots. The curve does not reach the first or
+                  last control point.
+  'open-uniform'  evenly spaced inner knots with degree + 1 repeated knots at
+                  each end, which pins the curve to the end points.
+  number[]        custom, non-decreasing, control points + degree + 1 long.
+*/
+export type KnotVector = 'uniform' | 'open-uniform' | number[];
+
+export type BSplineOptions = {
+  degree?: number;
+  knots?: KnotVector;
+  // One weight per control point. Leaving them out (or all equal) gives a
+  // plain B-spline, otherwise a NURBS curve.
+  weights?: number[];
+};
+
+export class BSplineCurve {
+  constructor(
+    public readonly points: readonly Vec2[],
+    public readonly degree: number,
+    public readonly knots: readonly number[],
+    public readonly weights: readonly number[] = points.map(() => 1)
+  ) {}
+
+  static create(points: Vec2[], options: BSplineOptions = {}): BSplineCurve {
+    const degree = Math.max(
+      1,
+      Math.min(options.degree ?? 3, points.length - 1)
+    );
+    const knots = options.knots ?? 'open-uniform';
+
+    return new BSplineCurve(
+      points,
+      degree,
+      Array.isArray(knots)
+        ? knots
+        : BSplineCurve.knotVector(points.length, degree, knots),
+      options.weights
+    );
+  }
+
+  static knotVector(
+    count: number,
+    degree: number,
+    type: 'uniform' | 'open-uniform'
+  ): number[] {
+    const length = count + degree + 1;
+
+    if (type === 'uniform') {
+      return Array.from({ length }, (_, i) => i / (length - 1));
+    }
+
+    const inner = count - degree;
+    return Array.from(
+      { length },
+      (_, i) => Math.min(Math.max(i - degree, 0), inner) / inner
+    );
+  }
+
+  // Quadratic rational Bezier arc. A weight below 1 gives an ellipse, exactly
+  // 1 a parabola and above 1 a hyperbola.
+  static conicArc(
+    start: Vec2,
+    control: Vec2,
+    end: Vec2,
+    weight: number
+  ): BSplineCurve {
+    return new BSplineCurve(
+      [start, control, end],
+      2,
+      [0, 0, 0, 1, 1, 1],
+      [1, weight, 1]
+    );
+  }
+
+  // An exact circle from four quarter arcs, each a conic with weight 1/sqrt(2)
+  static circle(center: Vec2, radius: number): BSplineCurve {
+    const corners = [
+      new Vec2(1, 0),
+      new Vec2(1, 1),
+      new Vec2(0, 1),
+      new Vec2(-1, 1),
+      new Vec2(-1, 0),
+      new Vec2(-1, -1),
+      new Vec2(0, -1),
+      new Vec2(1, -1),
+      new Vec2(1, 0),
+    ];
+    const w = Math.SQRT1_2;
+
+    return new BSplineCurve(
+      corners.map((p) => center.add(p.scale(radius))),
+      2,
+      [0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 4].map((k) => k / 4),
+      corners.map((_, i) => (i % 2 === 0 ? 1 : w))
+    );
+  }
+
+  get isRational(): boolean {
+    return this.weights.some((w) => w !== this.weights[0]);
+  }
+
+  // The range of the knot parameter the curve is defined over
+  get domain(): [number, number] {
+    const { knots, degree, points } = this;
+    return [knots[degree], knots[points.length]];
+  }
+
+  // Index of the knot span [knots[i], knots[i + 1]) containing u
+  private findSpan(u: number): number {
+    const { knots, degree, points } = this;
+    const n = points.length - 1;
+
+    if (u >= knots[n + 1]) {
+      return n;
+    } else if (u <= knots[degree]) {
+      return degree;
+    }
+
+    let low = degree;
+    let high = n + 1;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (u < knots[mid]) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+    return low;
+  }
+
+  /*
+    The degree + 1 basis functions that are non-zero on the span, built up
+    with the Cox-de Boor recursion
+
+      N_{i,0}(u) = 1 if knots[i] <= u < knots[i + 1], else 0
+      N_{i,p}(u) = (u - knots[i]) / (knots[i + p] - knots[i]) N_{i,p-1}(u)
+                 + (knots[i + p + 1] - u) / (knots[i + p + 1] - knots[i + 1]) N_{i+1,p-1}(u)
+
+    one degree at a time.
+  */
+  private basisFunctions(span: number, u: number): number[] {
+    const { knots, degree } = this;
+    const basis = [1];
+    const left = [0];
+    const right = [0];
+
+    for (let j = 1; j <= degree; j++) {
+      left[j] = u - knots[span + 1 - j];
+      right[j] = knots[span + j] - u;
+
+      let saved = 0;
+      for (let r = 0; r < j; r++) {
+        const denominator = right[r + 1] + left[j - r];
+        const temp = denominator === 0 ? 0 : basis[r] / denominator;
+        basis[r] = saved + right[r + 1] * temp;
+        saved = left[j - r] * temp;
+      }
+      basis[j] = saved;
+    }
+
+    return basis;
+  }
+
+  // Evaluates at the knot parameter u
+  evaluateAtKnot(u: number): Vec2 {
+    const { degree, points, weights } = this;
+    const [min, max] = this.domain;
+    const clamped = Math.min(Math.max(u, min), max);
+
+    const span = this.findSpan(clamped);
+    const basis = this.basisFunctions(span, clamped);
+
+    let point = Vec2.zero;
+    let weight = 0;
+    basis.forEach((n, j) => {
+      const index = span - degree + j;
+      const w = n * weights[index];
+      point = point.add(points[index].scale(w));
+      weight += w;
+    });
+
+    return point.divScale(weight);
+  }
+
+  // Evaluates with t in [0, 1] mapped onto the domain
+  evaluate(t: number): Vec2 {
+    const [min, max] = this.domain;
+    return this.evaluateAtKnot(min + (max - min) * t);
+  }
+
+  toParametricEquation(): ParametricEquation {
+    return (t) => this.evaluate(t);
+  }
+
+  /*
+    Boehm's algorithm: adds the knot u once without changing the shape of the
+    curve. Rational curves are handled in homogeneous coordinates (wx, wy, w).
+  */
+  insertKnot(u: number): BSplineCurve {
+    const { knots, degree, points, weights } = this;
+    const span = this.findSpan(u);
+
+    const homogeneous = points.map((p, i) => ({
+      point: p.scale(weights[i]),
+      weight: weights[i],
+    }));
+
+    const inserted = Array.from({ length: points.length + 1 }, (_, i) => {
+      if (i <= span - degree) {
+        return homogeneous[i];
+      } else if (i > span) {
+        return homogeneous[i - 1];
+      }
+
+      const alpha = (u - knots[i]) / (knots[i + degree] - knots[i]);
+      return {
+        point: homogeneous[i - 1].point.lerp(homogeneous[i].point, alpha),
+        weight:
+          homogeneous[i - 1].weight +
+          alpha * (homogeneous[i].weight - homogeneous[i - 1].weight),
+      };
+    });
+
+    return new BSplineCurve(
+      inserted.map(({ point, weight }) => point.divScale(weight)),
+      degree,
+      [...knots.slice(0, span + 1), u, ...knots.slice(span + 1)],
+      inserted.map(({ weight }) => weight)
+    );
+  }
+
+  // Points on the curve at each distinct knot inside the domain
+  knotPoints(): Vec2[] {
+    const [min, max] = this.domain;
+    return this.knots
+      .filter((k, i) => k >= min && k <= max && k !== this.knots[i - 1])
+      .map((k) => this.evaluateAtKnot(k));
+  }
+}
+
+export const BSplineInterpolator =
+  (options: BSplineOptions = {}): Interpolator<Vec2[]> =>
+  (pts) =>
+    pts.length < 2
+      ? () => pts[0] ?? Vec2.zero
+      : BSplineCurve.create(pts, options).toParametricEquation();
+
+/*
+  Draws the curve along with its control polygon, control points and the
+  points on the curve where one polynomial piece hands over to the next.
+*/
+export function BSplineDebugRenderer(
+  curve: BSplineCurve,
+  style: PlotStyle,
+  stepCount: number = 200
+): CanvasRenderer {
+  return (canvas, viewport) => {
+    canvas.drawPath(
+      { color: Color.grey(0.45), thickness: 1, dashPattern: [0.05, 0.05] },
+      ({ moveTo, lineTo }) => {
+        curve.points.forEach((p, i) => (i === 0 ? moveTo(p) : lineTo(p)));
+      }
+    );
+
+    canvas.drawPath(style, ({ moveTo, lineTo }) => {
+      for (let i = 0; i <= stepCount; i++) {
+        const p = curve.evaluate(i / stepCount);
+        if (i === 0) {
+          moveTo(p);
+        } else {
+          lineTo(p);
+        }
+      }
+    });
+
+    const knotSize = canvas.pixelThickness * 8;
+    curve.knotPoints().forEach((p) => {
+      canvas.drawRect(
+        new Rect(p, new Vec2(knotSize, knotSize)),
+        {
+          fillColor: Color.white,
+          stroke: { color: style.color, thickness: canvas.pixelThickness },
+        },
+        'centered'
+      );
+    });
+
+    curve.points.forEach((p, i) => {
+      canvas.drawCircle(
+        p,
+        canvas.pixelThickness * (4 + 2 * curve.weights[i]),
+        Color.fromOKLCH(0.7, 0.17, i / curve.points.length).toGamut()
+      );
+    });
+  };
+}
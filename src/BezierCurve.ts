@@ -0,0 +1,256 @@
+import { ParametricEquation } from '../Interpolator';
+import { PathOperations } from './Canvas';
+import { Matrix, VecN } from './Matrix';
+import { Rect } from './Rect';
+import { Vec2 } from './Vec2';
+
+export class BezierCurve {
+  constructor(public readonly points: readonly Vec2[]) {}
+
+  get degree(): number {
+    return this.points.length - 1;
+  }
+
+  get start(): Vec2 {
+    return this.points[0];
+  }
+
+  get end(): Vec2 {
+    return this.points[this.points.length - 1];
+  }
+
+  evaluate(t: number): Vec2 {
+    return BezierCurve.deCasteljau(this.points, t).point;
+  }
+
+  toParametricEquation(): ParametricEquation {
+    return (t) => this.evaluate(t);
+  }
+
+  // The hodograph: B'(t) = n * sum (p_{i+1} - p_i) B_{i,n-1}(t)
+  derivative(): BezierCurve {
+    const n = this.degree;
+    if (n < 1) {
+      return new BezierCurve([Vec2.zero]);
+    }
+
+    return new BezierCurve(
+      this.points.slice(1).map((p, i) => p.sub(this.points[i]).scale(n))
+    );
+  }
+
+  split(t: number): [BezierCurve, BezierCurve] {
+    const { left, right } = BezierCurve.deCasteljau(this.points, t);
+    return [new BezierCurve(left), new BezierCurve(right)];
+  }
+
+  // Restricts the curve to the parameter range [t0, t1], reparameterized to [0, 1]
+  subCurve(t0: number, t1: number): BezierCurve {
+    const [, tail] = this.split(t0);
+    if (t0 >= 1) {
+      return tail;
+    }
+    return tail.split((t1 - t0) / (1 - t0))[0];
+  }
+
+  // Same curve, one more control point
+  elevate(): BezierCurve {
+    const n = this.degree + 1;
+    const pts = this.points;
+
+    return new BezierCurve(
+      Array.from({ length: n + 1 }, (_, i) => {
+        if (i === 0) {
+          return pts[0];
+        } else if (i === n) {
+          return pts[n - 1];
+        }
+        return pts[i - 1].lerp(pts[i], 1 - i / n);
+      })
+    );
+  }
+
+  /*
+    Finds the curve of one lower degree which, when elevated again, is
+    closest to this one in the least squares sense. Exact whenever this
+    curve was itself produced by `elevate()`.
+  */
+  reduce(): BezierCurve {
+    const n = this.degree;
+    if (n < 1) {
+      return this;
+    }
+
+    // The (n + 1) x n matrix that `elevate()` applies to the control points
+    const elevation = Matrix.withProvider(
+      { rows: n + 1, columns: n },
+      ({ row, column }) => {
+        if (column === row) {
+          return 1 - row / n;
+        } else if (column === row - 1) {
+          return row / n;
+        }
+        return 0;
+      }
+    );
+
+    const normal = elevation.transpose().mul(elevation);
+    const solveComponent = (component: 'x' | 'y') => {
+      const rhs = elevation
+        .transpose()
+        .mulVecN(this.points.map((p) => p.get(component)) as VecN<number>);
+      return normal.solve(rhs) ?? rhs;
+    };
+
+    const xs = solveComponent('x');
+    const ys = solveComponent('y');
+
+    return new BezierCurve(xs.map((x, i) => new Vec2(x, ys[i])));
+  }
+
+  // Tight bounding box: the extremes are at the ends or where B'(t) has a zero component
+  bounds(): Rect {
+    const hodograph = this.derivative().points;
+    const parameters = [
+      0,
+      1,
+      ...BezierCurve.roots(hodograph.map((p) => p.x)),
+      ...BezierCurve.roots(hodograph.map((p) => p.y)),
+    ];
+
+    const pts = parameters.map((t) => this.evaluate(t));
+    const xs = pts.map((p) => p.x);
+    const ys = pts.map((p) => p.y);
+
+    return Rect.createRanges(
+      [Math.min(...xs), Math.max(...xs)],
+      [Math.min(...ys), Math.max(...ys)]
+    );
+  }
+
+  // Loose bounding box of the control polygon, which always contains the curve
+  hullBounds(): Rect {
+    const xs = this.points.map((p) => p.x);
+    const ys = this.points.map((p) => p.y);
+
+    return Rect.createRanges(
+      [Math.min(...xs), Math.max(...xs)],
+      [Math.min(...ys), Math.max(...ys)]
+    );
+  }
+
+  /*
+    Adds the curve to a path started with `Canvas.drawPath`. Degrees up to 3
+    map to native canvas curves, higher degrees are flattened into lines.
+  */
+  addToPath(
+    operations: PathOperations,
+    options: { moveToStart?: boolean; flattenSteps?: number } = {}
+  ) {
+    const { moveTo, lineTo, quadraticCurveTo, bezierCurveTo } = operations;
+    const pts = this.points;
+
+    if (options.moveToStart ?? true) {
+      moveTo(pts[0]);
+    }
+
+    switch (this.degree) {
+      case 0:
+        return;
+      case 1:
+        lineTo(pts[1]);
+        return;
+      case 2:
+        quadraticCurveTo(pts[1], pts[2]);
+        return;
+      case 3:
+        bezierCurveTo(pts[1], pts[2], pts[3]);
+        return;
+      default:
+        const steps = options.flattenSteps ?? 16 * this.degree;
+        for (let i = 1; i <= steps; i++) {
+          lineTo(this.evaluate(i / steps));
+        }
+    }
+  }
+
+  /*
+    Repeated linear interpolation between neighbouring points. The first and
+    last point of every level are the control points of the two halves.
+  */
+  private static deCasteljau(
+    points: readonly Vec2[],
+    t: number
+  ): { point: Vec2; left: Vec2[]; right: Vec2[] } {
+    let level = [...points];
+    const left = [level[0]];
+    const right = [level[level.length - 1]];
+
+    while (level.length > 1) {
+      level = level.slice(1).map((p, i) => level[i].lerp(p, t));
+      left.push(level[0]);
+      right.unshift(level[level.length - 1]);
+    }
+
+    return { point: level[0], left, right };
+  }
+
+  /*
+    Roots in [0, 1] of a one dimensional Bezier polynomial. Uses the convex
+    hull property: if every coefficient has the same sign there is no root,
+    otherwise split in half and look in both halves.
+  */
+  static roots(coefficients: number[], tolerance: number = 1e-9): number[] {
+    const scale = Math.max(...coefficients.map(Math.abs));
+    if (coefficients.length < 2 || scale === 0) {
+      return [];
+    }
+
+    const roots: number[] = [];
+
+    const search = (c: number[], t0: number, t1: number, depth: number) => {
+      const allPositive = c.every((v) => v > 0);
+      const allNegative = c.every((v) => v < 0);
+      if (allPositive || allNegative) {
+        return;
+      }
+
+      if (t1 - t0 < tolerance || depth > 50) {
+        const t = (t0 + t1) / 2;
+        if (
+          roots.length === 0 ||
+          t - roots[roots.length - 1] > 1e3 * tolerance
+        ) {
+          roots.push(t);
+        }
+        return;
+      }
+
+      const { left, right } = BezierCurve.deCasteljau(
+        c.map((v) => new Vec2(v, 0)),
+        0.5
+      );
+      const tm = (t0 + t1) / 2;
+      search(
+        left.map((p) => p.x),
+        t0,
+        tm,
+        depth + 1
+      );
+      search(
+        right.map((p) => p.x),
+        tm,
+        t1,
+        depth + 1
+      );
+    };
+
+    search(
+      coefficients.map((v) => v / scale),
+      0,
+      1,
+      0
+    );
+    return roots;
+  }
+}
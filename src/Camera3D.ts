@@ -0,0 +1,287 @@
+import { CanvasRenderer, PlotStyle } from '../Plotter';
+import { Canvas } from './Canvas';
+import { Color } from './Color';
+import { Matrix } from './Matrix';
+import { Rect } from './Rect';
+import { Vec2 } from './Vec2';
+import { Vec3 } from './Vec3';
+
+export type Projection = 'perspective' | 'orthographic';
+
+export type ProjectedPoint = {
+  // In the coordinates of the viewport the scene is drawn into
+  point: Vec2;
+  // Distance in front of the camera, along its viewing direction
+  depth: number;
+};
+
+export type Scene3DItem =
+  | { type: 'polyline'; points: Vec3[]; style: PlotStyle; closed?: boolean }
+  // Radius in pixels
+  | { type: 'points'; points: Vec3[]; color: Color; radius?: number };
+
+export type OrbitCameraSettings = {
+  target: Vec3;
+  distance: number;
+  // Angle around the y axis, 0 looks at the target from +z
+  azimuth: number;
+  // Angle above the xz plane
+  elevation: number;
+  fieldOfView: number;
+  near: number;
+  far: number;
+  projection: Projection;
+};
+
+/*
+  A camera circling `target` at `distance`, always looking at it with +y up.
+  The orthographic projection shows the same region around the target as the
+  perspective one, so switching between them keeps things in place.
+*/
+export class OrbitCamera {
+  target: Vec3;
+  distance: number;
+  azimuth: number;
+  elevation: number;
+  fieldOfView: number;
+  near: number;
+  far: number;
+  projection: Projection;
+
+  constructor(settings: Partial<OrbitCameraSettings> = {}) {
+    this.target = settings.target ?? Vec3.zero;
+    this.distance = settings.distance ?? 6;
+    this.azimuth = settings.azimuth ?? Math.PI / 4;
+    this.elevation = settings.elevation ?? Math.PI / 6;
+    this.fieldOfView = settings.fieldOfView ?? Math.PI / 4;
+    this.near = settings.near ?? 0.1;
+    this.far = settings.far ?? 100;
+    this.projection = settings.projection ?? 'perspective';
+  }
+
+  get eye(): Vec3 {
+    return this.target.add(
+      Vec3.spherical(Math.PI / 2 - this.elevation, this.azimuth, this.distance)
+    );
+  }
+
+  viewMatrix(): Matrix<4, 4> {
+    return Matrix.lookAt(this.eye, this.target);
+  }
+
+  projectionMatrix(aspect: number): Matrix<4, 4> {
+    if (this.projection === 'perspective') {
+      return Matrix.perspective(this.fieldOfView, aspect, this.near, this.far);
+    }
+    const halfHeight = this.distance * Math.tan(this.fieldOfView / 2);
+    const halfWidth = halfHeight * aspect;
+    return Matrix.orthographic(
+      -halfWidth,
+      halfWidth,
+      -halfHeight,
+      halfHeight,
+      this.near,
+      this.far
+    );
+  }
+
+  // Turns by `delta` radians, without going over the poles
+  orbit(delta: Vec2) {
+    const limit = Math.PI / 2 - 1e-3;
+    this.azimuth -= delta.x;
+    this.elevation = Math.min(
+      Math.max(this.elevation - delta.y, -limit),
+      limit
+    );
+  }
+
+  zoom(factor: number) {
+    this.distance = Math.min(
+      Math.max(this.distance * factor, this.near * 2),
+      this.far / 2
+    );
+  }
+
+  /*
+    Where p appears in `viewport`, or undefined when it is behind the near
+    plane. `aspect` is the width over height of the viewport on screen.
+  */
+  project(
+    p: Vec3,
+    viewport: Rect,
+    aspect: number = viewport.width / viewport.height
+  ): ProjectedPoint | undefined {
+    const inCamera = this.viewMatrix().mulVec3(p);
+    if (inCamera.z > -this.near) {
+      return undefined;
+    }
+    return {
+      point: this.toViewport(
+        this.projectionMatrix(aspect).mulVec3(inCamera),
+        viewport
+      ),
+      depth: -inCamera.z,
+    };
+  }
+
+  // Normalized device coordinates, [-1, 1] across the viewport, to the viewport
+  private toViewport(ndc: Vec3, viewport: Rect): Vec2 {
+    return viewport.convertNormalizedCoordinate(
+      ndc.xy.add(Vec2.one).scale(0.5)
+    );
+  }
+
+  /*
+    Orbits the camera as the mouse moves over `canvas`, a full turn for
+    moving across it. Keeps calling any handler that was already set.
+  */
+  attachOrbitControls(canvas: Canvas, turnsPerWidth: number = 1) {
+    const previousHandler = canvas.onMouseMove;
+    let last: Vec2 | undefined;
+
+    canvas.onMouseMove = (event) => {
+      previousHandler?.(event);
+
+      const p = event.normalizedPosition;
+      // A big jump means the mouse left and came back in somewhere else
+      if (last && last.distance(p) < 0.25) {
+        this.orbit(p.sub(last).scale(2 * Math.PI * turnsPerWidth));
+      }
+      last = p;
+    };
+  }
+
+  /*
+    Draws the items back to front, the painter's algorithm, at the level of
+    individual segments so crossing polylines overlap correctly. Segments are
+    cut off at the near plane.
+  */
+  renderer(items: Scene3DItem[]): CanvasRenderer {
+    return (canvas, viewport) => {
+      const pixelSize = canvas.pixelSize;
+      const aspect =
+        (viewport.width * pixelSize.x) / (viewport.height * pixelSize.y);
+
+      const view = this.viewMatrix();
+      const projection = this.projectionMatrix(aspect);
+      const toViewport = (inCamera: Vec3) =>
+        this.toViewport(projection.mulVec3(inCamera), viewport);
+
+      const draws: { depth: number; draw: () => void }[] = [];
+
+      items.forEach((item) => {
+        const inCamera = item.points.map((p) => view.mulVec3(p));
+
+        if (item.type === 'points') {
+          const radius = (item.radius ?? 4) * canvas.pixelThickness;
+          inCamera
+            .filter((p) => p.z <= -this.near)
+            .forEach((p) => {
+              const point = toViewport(p);
+              draws.push({
+                depth: -p.z,
+                draw: () => canvas.drawCircle(point, radius, item.color),
+              });
+            });
+          return;
+        }
+
+        const thickness = item.style.thickness * canvas.pixelThickness;
+        const count = item.closed ? inCamera.length : inCamera.length - 1;
+
+        for (let i = 0; i < count; i++) {
+          const segment = this.clipToNearPlane(
+            inCamera[i],
+            inCamera[(i + 1) % inCamera.length]
+          );
+          if (!segment) {
+            continue;
+          }
+
+          const [a, b] = segment;
+          const start = toViewport(a);
+          const end = toViewport(b);
+          draws.push({
+            depth: -(a.z + b.z) / 2,
+            draw: () =>
+              canvas.drawLine(start, end, item.style.color, thickness),
+          });
+        }
+      });
+
+      draws.sort((x, y) => y.depth - x.depth).forEach(({ draw }) => draw());
+    };
+  }
+
+  // The part of the camera space segment a-b in front of the near plane
+  private clipToNearPlane(a: Vec3, b: Vec3): [Vec3, Vec3] | undefined {
+    const plane = -this.near;
+    const aVisible = a.z <= plane;
+    const bVisible = b.z <= plane;
+
+    if (aVisible && bVisible) {
+      return [a, b];
+    } else if (!aVisible && !bVisible) {
+      return undefined;
+    }
+
+    const crossing = a.lerp(b, (plane - a.z) / (b.z - a.z));
+    return aVisible ? [a, crossing] : [crossing, b];
+  }
+}
+
+export function sampleCurve3D(
+  eqn: (t: number) => Vec3,
+  range: [number, number] = [0, 1],
+  samples: number = 200
+): Vec3[] {
+  const [min, max] = range;
+  return Array.from({ length: samples + 1 }, (_, i) =>
+    eqn(min + ((max - min) * i) / samples)
+  );
+}
+
+/*
+  The curves of constant u and of constant v on the surface f(u, v), for
+  drawing it as a wireframe.
+*/
+export function surfaceWireframe(
+  f: (u: number, v: number) => Vec3,
+  options: {
+    uRange?: [number, number];
+    vRange?: [number, number];
+    uLines?: number;
+    vLines?: number;
+    samples?: number;
+  } = {}
+): Vec3[][] {
+  const [u0, u1] = options.uRange ?? [0, 1];
+  const [v0, v1] = options.vRange ?? [0, 1];
+  const uLines = options.uLines ?? 10;
+  const vLines = options.vLines ?? 10;
+  const samples = options.samples ?? 40;
+
+  const constantU = Array.from({ length: uLines + 1 }, (_, i) => {
+    const u = u0 + ((u1 - u0) * i) / uLines;
+    return sampleCurve3D((v) => f(u, v), [v0, v1], samples);
+  });
+  const constantV = Array.from({ length: vLines + 1 }, (_, i) => {
+    const v = v0 + ((v1 - v0) * i) / vLines;
+    return sampleCurve3D((u) => f(u, v), [u0, u1], samples);
+  });
+
+  return [...constantU, ...constantV];
+}
+
+// The x, y and z axes in red, green and blue
+export function axes3D(length: number = 1): Scene3DItem[] {
+  return [
+    [Vec3.right, new Color(0.85, 0.1, 0.1)],
+    [Vec3.up, new Color(0.1, 0.6, 0.1)],
+    [Vec3.forward, new Color(0.1, 0.3, 0.9)],
+  ].map(([axis, color]: [Vec3, Color]) => ({
+    type: 'polyline',
+    points: [Vec3.zero, axis.scale(length)],
+    style: { color, thickness: 2 },
+  }));
+}
@@ -1,8 +1,40 @@
-import { Color } from './Color';
-import { Matrix } from './Matrix';
+import { BlendMode, Color } from './Color';
 import { Rect } from './Rect';
+import { Transform2D } from './Transform2D';
 import { Vec2 } from './Vec2';
 
+export type PathOperations = {
+  moveTo: (v: Vec2) => void;
+  lineTo: (v: Vec2) => void;
+  quadraticCurveTo: (control: Vec2, end: Vec2) => void;
+  bezierCurveTo: (control1: Vec2, control2: Vec2, end: Vec2) => void;
+};
+
+const compositeOperations: {
+  [mode in BlendMode]: GlobalCompositeOperation;
+} = {
+  normal: 'source-over',
+  multiply: 'multiply',
+  screen: 'screen',
+  overlay: 'overlay',
+  darken: 'darken',
+  lighten: 'lighten',
+  difference: 'difference',
+  exclusion: 'exclusion',
+  additive: 'lighter',
+};
+
+export type TextStyle = {
+  fontSize?: number;
+  bold?: boolean;
+};
+
+const defaultFontSize = 12;
+
+function fontString({ fontSize, bold }: TextStyle) {
+  return `${bold ? 'bold ' : ''}${fontSize ?? defaultFontSize}px sans-serif`;
+}
+
 export class Canvas {
   private readonly canvas: HTMLCanvasElement;
   private readonly context: CanvasRenderingContext2D;
@@ -10,6 +42,9 @@ export class Canvas {
   private _viewRect: Rect;
   private _canvasSize: Vec2;
 
+  // Holds images for `drawImageData`, which can only be put on a canvas
+  private imageCanvas: HTMLCanvasElement | undefined = undefined;
+
   get unsafeRawContext() {
     return this.context;
   }
@@ -87,14 +122,16 @@ export class Canvas {
     canvas.width = this.canvasSize.x * window.devicePixelRatio;
     canvas.height = this.canvasSize.y * window.devicePixelRatio;
 
-    const mat = this.canvasMat(window.devicePixelRatio);
-    this.context.setTransform(mat.toDOMMatrix());
+    const transform = this.canvasTransform(window.devicePixelRatio);
+    this.context.setTransform(transform.toDOMMatrix());
   }
 
   get pixelSize(): Vec2 {
-    const mat = this.context.getTransform();
-    const x = Math.abs(mat.a);
-    const y = Math.abs(mat.d);
+    const { scale } = Transform2D.fromDOMMatrix(
+      this.context.getTransform()
+    ).decompose();
+    const x = Math.abs(scale.x);
+    const y = Math.abs(scale.y);
 
     return new Vec2(x, y).divScale(window.devicePixelRatio);
   }
@@ -103,19 +140,21 @@ export class Canvas {
     return 1 / this.pixelSize.magnitude();
   }
 
-  canvasMat(pixelRatio = window.devicePixelRatio): Matrix<3, 3> {
+  // Like `pixelSize`, in device pixels
+  get devicePixelSize(): Vec2 {
+    return this.pixelSize.scale(window.devicePixelRatio);
+  }
+
+  canvasTransform(pixelRatio = window.devicePixelRatio): Transform2D {
     const { canvasSize, viewRect } = this;
 
     const sx = (viewRect.size.x / canvasSize.x) * pixelRatio;
     const sy = (-viewRect.size.y / canvasSize.y) * pixelRatio;
-    const tx = 0;
     const ty = canvasSize.y * pixelRatio;
 
-    return new Matrix([
-      [sx, 0, 0],
-      [0, sy, 0],
-      [tx, ty, 1],
-    ] as const);
+    return Transform2D.scale(new Vec2(sx, sy)).then(
+      Transform2D.translate(new Vec2(0, ty))
+    );
   }
 
   onMouseMove:
@@ -138,15 +177,18 @@ export class Canvas {
     return Math.sqrt(x * x + y * y);
   }
 
+  // Translucent colors leave the canvas see-through instead of tinting it
   clear(color: Color) {
     this.#contextOperation(() => {
+      this.context.clearRect(...this.viewRect.components);
       this.context.fillStyle = color.hexString();
       this.context.fillRect(...this.viewRect.components);
     });
   }
 
-  #contextOperation(fn: () => void) {
+  #contextOperation(fn: () => void, blendMode: BlendMode = 'normal') {
     this.context.save();
+    this.context.globalCompositeOperation = compositeOperations[blendMode];
     fn();
     this.context.restore();
   }
@@ -155,7 +197,8 @@ export class Canvas {
     origin: Vec2,
     radius: number,
     color: Color,
-    mode: 'fill' | 'stroke' = 'fill'
+    mode: 'fill' | 'stroke' = 'fill',
+    blendMode?: BlendMode
   ) {
     this.#contextOperation(() => {
       this.context.beginPath();
@@ -176,17 +219,23 @@ export class Canvas {
         this.context.strokeStyle = color.hexString();
         this.context.stroke();
       }
-    });
+    }, blendMode);
   }
 
-  drawPoint(pt: Vec2, color: Color) {
+  drawPoint(pt: Vec2, color: Color, blendMode?: BlendMode) {
     this.#contextOperation(() => {
       this.context.fillStyle = color.hexString();
       this.context.fillRect(pt.x, pt.y, 1, 1);
-    });
+    }, blendMode);
   }
 
-  drawLine(start: Vec2, end: Vec2, color: Color, pixelThickness: number = 6) {
+  drawLine(
+    start: Vec2,
+    end: Vec2,
+    color: Color,
+    pixelThickness: number = 6,
+    blendMode?: BlendMode
+  ) {
     this.#contextOperation(() => {
       this.context.strokeStyle = color.hexString();
       this.context.lineWidth = pixelThickness;
@@ -194,10 +243,10 @@ export class Canvas {
       this.context.moveTo(...start.components);
       this.context.lineTo(...end.components);
       this.context.stroke();
-    });
+    }, blendMode);
   }
 
-  drawPolygon(pts: Vec2[], color: Color) {
+  drawPolygon(pts: Vec2[], color: Color, blendMode?: BlendMode) {
     this.#contextOperation(() => {
       this.context.fillStyle = color.hexString();
       this.context.beginPath();
@@ -207,7 +256,44 @@ export class Canvas {
       });
 
       this.context.fill();
-    });
+    }, blendMode);
+  }
+
+  /*
+    Text centered on `position`, upright and unscaled on screen whatever the
+    transform. `fontSize` is in pixels and `angle` turns the text
+    counterclockwise, in radians.
+  */
+  drawText(
+    text: string,
+    position: Vec2,
+    color: Color,
+    options: TextStyle & { angle?: number } = {},
+    blendMode?: BlendMode
+  ) {
+    const { x, y } = this.pixelSize;
+
+    this.#contextOperation(() => {
+      this.context.translate(position.x, position.y);
+      this.context.scale(1 / x, -1 / y);
+      this.context.rotate(-(options.angle ?? 0));
+
+      this.context.font = fontString(options);
+      this.context.fillStyle = color.hexString();
+      this.context.textAlign = 'center';
+      this.context.textBaseline = 'middle';
+      this.context.fillText(text, 0, 0);
+    }, blendMode);
+  }
+
+  // The size in pixels of text drawn with `drawText`
+  measureText(text: string, options: TextStyle = {}): Vec2 {
+    this.context.save();
+    this.context.font = fontString(options);
+    const { width } = this.context.measureText(text);
+    this.context.restore();
+
+    return new Vec2(width, options.fontSize ?? defaultFontSize);
   }
 
   drawRect(
@@ -215,6 +301,7 @@ export class Canvas {
     options: {
       fillColor?: Color;
       stroke?: { color: Color; thickness?: number };
+      blendMode?: BlendMode;
     },
     position: 'centered' | 'origin' = 'origin'
   ) {
@@ -238,7 +325,32 @@ export class Canvas {
         this.context.lineWidth = options.stroke.thickness ?? 1;
         this.context.strokeRect(...components);
       }
-    });
+    }, options.blendMode);
+  }
+
+  /*
+    Stretches image over rect, with its first row at the top. Unlike
+    putImageData, which writes device pixels as they are, this goes through
+    the transform, the clip and the blend mode like the other drawing calls,
+    and composites translucent pixels over what is already drawn.
+  */
+  drawImageData(image: ImageData, rect: Rect, blendMode?: BlendMode) {
+    const imageCanvas = (this.imageCanvas ??= document.createElement('canvas'));
+    if (
+      imageCanvas.width !== image.width ||
+      imageCanvas.height !== image.height
+    ) {
+      imageCanvas.width = image.width;
+      imageCanvas.height = image.height;
+    }
+    imageCanvas.getContext('2d')!.putImageData(image, 0, 0);
+
+    this.#contextOperation(() => {
+      this.context.imageSmoothingEnabled = false;
+      this.context.translate(rect.origin.x, rect.farCorner.y);
+      this.context.scale(1, -1);
+      this.context.drawImage(imageCanvas, 0, 0, rect.width, rect.height);
+    }, blendMode);
   }
 
   renderInViewport(
@@ -254,23 +366,8 @@ export class Canvas {
     this.context.rect(...options.canvasRect.components);
     this.context.clip();
 
-    const mat = Matrix.viewportTransformation(
-      options.viewport,
-      options.canvasRect
-    );
-
-    /*
-      a c e
-      b d f
-      0 0 1
-    */
     this.context.transform(
-      mat.atColumnRow(0, 0),
-      mat.atColumnRow(0, 1),
-      mat.atColumnRow(1, 0),
-      mat.atColumnRow(1, 1),
-      mat.atColumnRow(2, 0),
-      mat.atColumnRow(2, 1)
+      ...Transform2D.viewport(options.viewport, options.canvasRect).components
     );
 
     fn();
@@ -296,13 +393,17 @@ export class Canvas {
   }
 
   drawPath(
-    config: { color: Color; thickness: number; dashPattern?: number[] },
-    fn: (operations: {
-      moveTo: (v: Vec2) => void;
-      lineTo: (v: Vec2) => void;
-    }) => void
+    config: {
+      color: Color;
+      thickness: number;
+      dashPattern?: number[];
+      blendMode?: BlendMode;
+    },
+    fn: (operations: PathOperations) => void
   ) {
     this.context.save();
+    this.context.globalCompositeOperation =
+      compositeOperations[config.blendMode ?? 'normal'];
     this.context.beginPath();
 
     this.context.lineWidth = config.thickness * this.pixelThickness;
@@ -314,6 +415,14 @@ export class Canvas {
     fn({
       moveTo: (v) => this.context.moveTo(...v.components),
       lineTo: (v) => this.context.lineTo(...v.components),
+      quadraticCurveTo: (c, v) =>
+        this.context.quadraticCurveTo(...c.components, ...v.components),
+      bezierCurveTo: (c1, c2, v) =>
+        this.context.bezierCurveTo(
+          ...c1.components,
+          ...c2.components,
+          ...v.components
+        ),
     });
     this.context.stroke();
     this.context.restore();
@@ -0,0 +1,211 @@
+import { ParametricEquation } from '../Interpolator';
+import { ExplicitFunction, ImplicitFunction } from '../Plotter';
+import {
+  implicitNumericGradient,
+  parametricNumericDerivative,
+  parametricNumericSecondDerivative,
+} from './Derivative';
+import { Vec2 } from './Vec2';
+
+export type ClosestPoint = {
+  parameter: number;
+  point: Vec2;
+  distance: number;
+};
+
+export type ClosestPointOptions = {
+  // Number of coarse samples taken before refining
+  samples?: number;
+  tolerance?: number;
+};
+
+/*
+  Samples the curve to find the local minima of the distance to p, then
+  refines each with Newton's method on
+
+    g(t) = (C(t) - p) . C'(t)
+
+  which is zero wherever p - C(t) is perpendicular to the curve. Its
+  derivative is g'(t) = C'(t) . C'(t) + (C(t) - p) . C''(t).
+*/
+export function closestPoint(
+  eqn: ParametricEquation,
+  p: Vec2,
+  options: ClosestPointOptions & { range?: [number, number] } = {}
+): ClosestPoint {
+  const [min, max] = options.range ?? [0, 1];
+  const samples = options.samples ?? 64;
+  const tolerance = options.tolerance ?? 1e-10;
+
+  const step = (max - min) / samples;
+  const h = Math.max(Math.abs(step) * 1e-3, 1e-7);
+
+  const parameters = Array.from(
+    { length: samples + 1 },
+    (_, i) => min + i * step
+  );
+  const distances = parameters.map((t) => eqn(t).distanceSquared(p));
+
+  const localMinima = parameters.filter(
+    (_, i) =>
+      (i === 0 || distances[i] <= distances[i - 1]) &&
+      (i === samples || distances[i] <= distances[i + 1])
+  );
+
+  const refine = (t: number) => {
+    const lower = Math.max(min, t - step);
+    const upper = Math.min(max, t + step);
+
+    for (let i = 0; i < 20; i++) {
+      const c = eqn(t).sub(p);
+      const d1 = parametricNumericDerivative(t, eqn, h);
+      const d2 = parametricNumericSecondDerivative(t, eqn, h);
+
+      const g = c.dot(d1);
+      const gPrime = d1.dot(d1) + c.dot(d2);
+      if (gPrime <= 0) {
+        // Not heading towards a minimum, the sample is as good as it gets
+        break;
+      }
+
+      const next = Math.min(Math.max(t - g / gPrime, lower), upper);
+      if (Math.abs(next - t) < tolerance) {
+        t = next;
+        break;
+      }
+      t = next;
+    }
+    return t;
+  };
+
+  return localMinima
+    .map(refine)
+    .map((t) => {
+      const point = eqn(t);
+      return { parameter: t, point, distance: point.distance(p) };
+    })
+    .reduce((best, candidate) =>
+      candidate.distance < best.distance ? candidate : best
+    );
+}
+
+// The graph of y = fn(x), with `parameter` being the x coordinate
+export function closestPointOnGraph(
+  fn: ExplicitFunction,
+  p: Vec2,
+  range: [number, number],
+  options: ClosestPointOptions = {}
+): ClosestPoint {
+  return closestPoint((x) => new Vec2(x, fn(x)), p, { ...options, range });
+}
+
+/*
+  Finds where the curve fn(x, y) = 0 crosses the edges of a coarse grid
+  around p, then improves each crossing by alternating two steps:
+
+    1. Newton along the gradient back onto the curve,
+       q <- q - fn(q) * grad / |grad|^2
+    2. sliding along the tangent line to the foot of the perpendicular from p
+
+  until the slide becomes negligible.
+*/
+export function closestPointOnImplicit(
+  fn: ImplicitFunction,
+  p: Vec2,
+  options: ClosestPointOptions & { searchRadius?: number } = {}
+): Omit<ClosestPoint, 'parameter'> | undefined {
+  const radius = options.searchRadius ?? 1;
+  const samples = options.samples ?? 32;
+  const tolerance = options.tolerance ?? 1e-10;
+
+  const cell = (2 * radius) / samples;
+  const h = cell * 1e-3;
+  const f = (q: Vec2) => fn(q.x, q.y);
+
+  const gridPoint = (i: number, j: number) =>
+    p.add(new Vec2(i * cell - radius, j * cell - radius));
+
+  const values = Array.from({ length: samples + 1 }, (_, i) =>
+    Array.from({ length: samples + 1 }, (_, j) => f(gridPoint(i, j)))
+  );
+
+  const crossings: Vec2[] = [];
+  const addCrossing = (a: Vec2, fa: number, b: Vec2, fb: number) => {
+    if (fa === 0) {
+      crossings.push(a);
+    } else if (fa * fb < 0) {
+      crossings.push(a.lerp(b, fa / (fa - fb)));
+    }
+  };
+
+  for (let i = 0; i <= samples; i++) {
+    for (let j = 0; j <= samples; j++) {
+      if (i < samples) {
+        addCrossing(
+          gridPoint(i, j),
+          values[i][j],
+          gridPoint(i + 1, j),
+          values[i + 1][j]
+        );
+      }
+      if (j < samples) {
+        addCrossing(
+          gridPoint(i, j),
+          values[i][j],
+          gridPoint(i, j + 1),
+          values[i][j + 1]
+        );
+      }
+    }
+  }
+
+  const projectOntoCurve = (q: Vec2) => {
+    for (let i = 0; i < 8; i++) {
+      const value = f(q);
+      const gradient = implicitNumericGradient(q, fn, h, h);
+      const lengthSquared = gradient.magnitudeSquared();
+      if (lengthSquared === 0 || Math.abs(value) < tolerance) {
+        break;
+      }
+      q = q.sub(gradient.scale(value / lengthSquared));
+    }
+    return q;
+  };
+
+  const refine = (q: Vec2) => {
+    for (let i = 0; i < 20; i++) {
+      q = projectOntoCurve(q);
+
+      const tangent = implicitNumericGradient(q, fn, h, h)
+        .crossAxisZ()
+        .normalized();
+      const slide = tangent.scale(p.sub(q).dot(tangent));
+
+      // Never slide further than a grid cell, the tangent line is only local
+      q = q.add(
+        slide.magnitude() > cell ? slide.normalized().scale(cell) : slide
+      );
+      if (slide.magnitude() < tolerance) {
+        break;
+      }
+    }
+    return projectOntoCurve(q);
+  };
+
+  // Only refine the crossings that could plausibly end up closest
+  const nearest = crossings
+    .map((q) => ({ q, d: q.distance(p) }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, 8);
+
+  if (nearest.length === 0) {
+    return undefined;
+  }
+
+  return nearest
+    .map(({ q }) => refine(q))
+    .map((point) => ({ point, distance: point.distance(p) }))
+    .reduce((best, candidate) =>
+      candidate.distance < best.distance ? candidate : best
+    );
+}
@@ -1,27 +1,53 @@
+import { namedColors } from './NamedColors';
+
+/*
+  r, g and b are gamma encoded sRGB in [0, 1], not premultiplied by the alpha
+  a. The arithmetic below works on r, g and b and keeps the alpha of `this`.
+*/
 export class Color {
   constructor(
     public readonly r: number,
     public readonly g: number,
-    public readonly b: number
+    public readonly b: number,
+    public readonly a: number = 1
   ) {}
 
   static readonly white = Color.grey(1);
   static readonly black = Color.grey(0);
+  static readonly transparent = new Color(0, 0, 0, 0);
 
   static grey(value: number = 0.5) {
     return new Color(value, value, value);
   }
 
+  withAlpha(a: number) {
+    return new Color(this.r, this.g, this.b, a);
+  }
+
+  get isOpaque() {
+    return this.a >= 1;
+  }
+
   add(other: Color) {
-    return new Color(this.r + other.r, this.g + other.g, this.b + other.b);
+    return new Color(
+      this.r + other.r,
+      this.g + other.g,
+      this.b + other.b,
+      this.a
+    );
   }
 
   sub(other: Color) {
-    return new Color(this.r - other.r, this.g - other.g, this.b - other.b);
+    return new Color(
+      this.r - other.r,
+      this.g - other.g,
+      this.b - other.b,
+      this.a
+    );
   }
 
   scale(scalar: number) {
-    return new Color(this.r * scalar, this.g * scalar, this.b * scalar);
+    return new Color(this.r * scalar, this.g * scalar, this.b * scalar, this.a);
   }
 
   clamp(min: number = 0, max: number = 1) {
@@ -29,7 +55,8 @@ export class Color {
       return Math.max(min, Math.min(max, x));
     }
 
-    return new Color(c(this.r), c(this.g), c(this.b));
+    const a = Math.max(0, Math.min(1, this.a));
+    return new Color(c(this.r), c(this.g), c(this.b), a);
   }
 
   dot(other: Color) {
@@ -38,8 +65,21 @@ export class Color {
 
   private static readonly greyscaleWeights = new Color(0.299, 0.587, 0.114);
 
+  /*
+    Blends premultiplied, as canvas gradients and CSS do, so fading towards
+    a transparent color does not darken on the way.
+  */
   lerp(other: Color, factor: number) {
-    return this.add(other.sub(this).scale(factor));
+    const a = this.premultiplied();
+    const b = other.premultiplied();
+    const mix = (x: number, y: number) => x + (y - x) * factor;
+
+    return Color.fromPremultiplied(
+      mix(a.r, b.r),
+      mix(a.g, b.g),
+      mix(a.b, b.b),
+      mix(a.a, b.a)
+    );
   }
 
   greyscaleValue() {
@@ -47,13 +87,69 @@ export class Color {
   }
 
   greyscale() {
-    return Color.grey(this.greyscaleValue());
+    return Color.grey(this.greyscaleValue()).withAlpha(this.a);
   }
 
   scaleDiv(scalar: number) {
     return scalar === 0
-      ? Color.black
-      : new Color(this.r / scalar, this.g / scalar, this.b / scalar);
+      ? Color.black.withAlpha(this.a)
+      : new Color(this.r / scalar, this.g / scalar, this.b / scalar, this.a);
+  }
+
+  premultiplied(): { r: number; g: number; b: number; a: number } {
+    const { r, g, b, a } = this;
+    return { r: r * a, g: g * a, b: b * a, a };
+  }
+
+  static fromPremultiplied(r: number, g: number, b: number, a: number) {
+    return a === 0 ? Color.transparent : new Color(r / a, g / a, b / a, a);
+  }
+
+  /*
+    This color drawn on top of `backdrop`, following the W3C compositing
+    spec: the blend mode mixes the two colors where both are present, then
+    source-over compositing weighs that by the alphas. 'additive' sums the
+    premultiplied colors instead, like the canvas 'lighter' operation.
+  */
+  over(backdrop: Color, mode: BlendMode = 'normal'): Color {
+    const source = this.premultiplied();
+    const back = backdrop.premultiplied();
+
+    if (mode === 'additive') {
+      return Color.fromPremultiplied(
+        Math.min(source.r + back.r, 1),
+        Math.min(source.g + back.g, 1),
+        Math.min(source.b + back.b, 1),
+        Math.min(source.a + back.a, 1)
+      );
+    }
+
+    const blend = blendFunctions[mode];
+    const alpha = this.a + backdrop.a * (1 - this.a);
+    const channel = (cs: number, cb: number, premultipliedBack: number) => {
+      const mixed = (1 - backdrop.a) * cs + backdrop.a * blend(cb, cs);
+      return this.a * mixed + premultipliedBack * (1 - this.a);
+    };
+
+    return Color.fromPremultiplied(
+      channel(this.r, backdrop.r, back.r),
+      channel(this.g, backdrop.g, back.g),
+      channel(this.b, backdrop.b, back.b),
+      alpha
+    );
+  }
+
+  // From '#rrggbb' or '#rrggbbaa', the inverse of `hexString`
+  static fromHex(hex: string) {
+    const match =
+      /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})?$/i.exec(hex);
+    if (!match) {
+      throw new Error(`Color: '${hex}' is not a #rrggbb or #rrggbbaa color`);
+    }
+    const [r, g, b, a] = match
+      .slice(1)
+      .map((h) => (h === undefined ? 1 : parseInt(h, 16) / 255));
+    return new Color(r, g, b, a);
   }
 
   private _hexString: string | undefined = undefined;
@@ -64,11 +160,20 @@ export class Color {
         return s.length === 1 ? '0' + s : s;
       }
 
-      this._hexString = `#${h(this.r)}${h(this.g)}${h(this.b)}`;
+      // Opaque colors keep the short form, which is also what canvas reports back
+      this._hexString =
+        `#${h(this.r)}${h(this.g)}${h(this.b)}` +
+        (this.isOpaque ? '' : h(this.a));
     }
     return this._hexString!;
   }
 
+  rgbaString(): string {
+    const c = (n: number) => Math.round(Math.max(Math.min(n, 1), 0) * 255);
+    const a = Number(Math.max(Math.min(this.a, 1), 0).toFixed(3));
+    return `rgba(${c(this.r)}, ${c(this.g)}, ${c(this.b)}, ${a})`;
+  }
+
   toHSV(): { hue: number; saturation: number; value: number } {
     const max = Math.max(this.r, this.g, this.b);
     const min = Math.min(this.r, this.g, this.b);
@@ -80,19 +185,19 @@ export class Color {
       delta === 0
         ? 0
         : max === r
-        ? (((g - b) / delta) % 6) / 6
+        ? wrapTurns((g - b) / delta / 6)
         : max === g
         ? ((b - r) / delta + 2) / 6
         : ((r - g) / delta + 4) / 6;
 
     const saturation = max === 0 ? 0 : delta / max;
-    const value = delta;
+    const value = max;
 
     return { hue, saturation, value };
   }
 
   static fromHSV(hue: number, saturation: number, value: number) {
-    const h = hue * 6;
+    const h = wrapTurns(hue) * 6;
     const c = value * saturation;
     const x = c * (1 - Math.abs((h % 2) - 1));
     const m = value - c;
@@ -112,4 +217,666 @@ export class Color {
 
     return new Color(r + m, g + m, b + m);
   }
+  // Hue in turns like `toHSV`
+  toHSL(): { hue: number; saturation: number; lightness: number } {
+    const { hue, value } = this.toHSV();
+    const min = Math.min(this.r, this.g, this.b);
+    const lightness = (value + min) / 2;
+    const saturation =
+      lightness <= 0 || lightness >= 1
+        ? 0
+        : (value - lightness) / Math.min(lightness, 1 - lightness);
+
+    return { hue, saturation, lightness };
+  }
+
+  static fromHSL(hue: number, saturation: number, lightness: number) {
+    const value = lightness + saturation * Math.min(lightness, 1 - lightness);
+    return Color.fromHSV(
+      hue,
+      value === 0 ? 0 : 2 * (1 - lightness / value),
+      value
+    );
+  }
+
+  // The amounts of white and black mixed into the pure hue
+  toHWB(): { hue: number; whiteness: number; blackness: number } {
+    const { hue, saturation, value } = this.toHSV();
+    return { hue, whiteness: (1 - saturation) * value, blackness: 1 - value };
+  }
+
+  static fromHWB(hue: number, whiteness: number, blackness: number) {
+    const total = whiteness + blackness;
+    if (total >= 1) {
+      return Color.grey(whiteness / total);
+    }
+    return Color.fromHSV(hue, 1 - whiteness / (1 - blackness), 1 - blackness);
+  }
+
+  /*
+    Reads a CSS color: '#rgb', '#rgba', '#rrggbb' and '#rrggbbaa', the named
+    colors, rgb(), rgba(), hsl(), hsla(), hwb() and oklch(), in the comma
+    separated or the space separated syntax with '/ alpha'. Channels out of
+    range are clamped like CSS does. Throws an Error saying what is wrong for
+    anything else.
+  */
+  static parse(text: string): Color {
+    const source = text.trim().toLowerCase();
+
+    if (source.startsWith('#')) {
+      const digits = source.slice(1);
+      if (
+        !/^[0-9a-f]*$/.test(digits) ||
+        ![3, 4, 6, 8].includes(digits.length)
+      ) {
+        throw parseError(text, 'hex colors need 3, 4, 6 or 8 hex digits');
+      }
+      return Color.fromHex(
+        digits.length <= 4 ? digits.replace(/./g, (d) => d + d) : digits
+      );
+    }
+
+    if (Object.prototype.hasOwnProperty.call(namedColors, source)) {
+      return Color.fromHex(namedColors[source]);
+    }
+
+    const match = /^([a-z]+)\((.*)\)$/.exec(source);
+    if (!match) {
+      throw parseError(
+        text,
+        /^[a-z]+$/.test(source)
+          ? 'unknown color name'
+          : 'expected a hex color, a color name or a function like rgb(...)'
+      );
+    }
+
+    const [, name, body] = match;
+    const parse = colorFunctions[name];
+    if (!parse) {
+      throw parseError(text, `unknown color function '${name}'`);
+    }
+
+    const { channels, alpha, commas } = splitArguments(body, text);
+    if (commas && !['rgb', 'rgba', 'hsl', 'hsla'].includes(name)) {
+      throw parseError(text, `${name}() separates its values with spaces`);
+    }
+
+    const component = (token: string, kind: ComponentKind) =>
+      parseComponent(token, kind, text);
+    const a = alpha === undefined ? 1 : clamp01(component(alpha, 'alpha'));
+    return parse(channels, component).clamp().withAlpha(a);
+  }
+
+  // CSS text for the color that `parse` reads back, e.g. 'hsl(120 100% 25%)'
+  toCSS(format: CSSColorFormat = 'hex'): string {
+    const round = (x: number, digits: number) => Number(x.toFixed(digits));
+    const percent = (x: number) => `${round(x * 100, 2)}%`;
+    const degrees = (turns: number) => round(turns * 360, 2);
+    const alpha = this.isOpaque ? '' : ` / ${round(clamp01(this.a), 3)}`;
+
+    switch (format) {
+      case 'hex':
+        return this.hexString();
+      case 'rgb': {
+        const c = (x: number) => round(clamp01(x) * 255, 2);
+        return `rgb(${c(this.r)} ${c(this.g)} ${c(this.b)}${alpha})`;
+      }
+      case 'hsl': {
+        const { hue, saturation, lightness } = this.clamp().toHSL();
+        return `hsl(${degrees(hue)} ${percent(saturation)} ${percent(
+          lightness
+        )}${alpha})`;
+      }
+      case 'hwb': {
+        const { hue, whiteness, blackness } = this.clamp().toHWB();
+        return `hwb(${degrees(hue)} ${percent(whiteness)} ${percent(
+          blackness
+        )}${alpha})`;
+      }
+      case 'oklch': {
+        const { lightness, chroma, hue } = this.toOKLCH();
+        return `oklch(${percent(lightness)} ${round(chroma, 4)} ${degrees(
+          hue
+        )}${alpha})`;
+      }
+    }
+  }
+
+  /*
+    The components of a Color are gamma encoded sRGB, as used by CSS and
+    canvas. Light adds up in linear sRGB, where the transfer curve is undone.
+  */
+  toLinearRGB(): { r: number; g: number; b: number } {
+    return {
+      r: srgbToLinear(this.r),
+      g: srgbToLinear(this.g),
+      b: srgbToLinear(this.b),
+    };
+  }
+
+  static fromLinearRGB(r: number, g: number, b: number) {
+    return new Color(linearToSRGB(r), linearToSRGB(g), linearToSRGB(b));
+  }
+
+  // CIE 1931 XYZ relative to the D65 white point, white has y = 1
+  toXYZ(): { x: number; y: number; z: number } {
+    const { r, g, b } = this.toLinearRGB();
+    const [x, y, z] = mul3(linearRGBToXYZ, [r, g, b]);
+    return { x, y, z };
+  }
+
+  static fromXYZ(x: number, y: number, z: number) {
+    const [r, g, b] = mul3(xyzToLinearRGB, [x, y, z]);
+    return Color.fromLinearRGB(r, g, b);
+  }
+
+  // CIELAB with l from 0 to 100, a running green to red and b blue to yellow
+  toLab(): { l: number; a: number; b: number } {
+    const { x, y, z } = this.toXYZ();
+    const fx = labF(x / d65.x);
+    const fy = labF(y / d65.y);
+    const fz = labF(z / d65.z);
+
+    return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+  }
+
+  static fromLab(l: number, a: number, b: number) {
+    const fy = (l + 16) / 116;
+    return Color.fromXYZ(
+      d65.x * labFInverse(fy + a / 500),
+      d65.y * labFInverse(fy),
+      d65.z * labFInverse(fy - b / 200)
+    );
+  }
+
+  // CIELAB in polar form, hue in turns like `toHSV`
+  toLCh(): { lightness: number; chroma: number; hue: number } {
+    const { l, a, b } = this.toLab();
+    return { lightness: l, ...toPolar(a, b) };
+  }
+
+  static fromLCh(lightness: number, chroma: number, hue: number) {
+    const [a, b] = fromPolar(chroma, hue);
+    return Color.fromLab(lightness, a, b);
+  }
+
+  /*
+    OKLab (Björn Ottosson, 2020), l from 0 to 1. Predicts perceived
+    lightness, chroma and hue more evenly than CIELAB, notably for blues.
+  */
+  toOKLab(): { l: number; a: number; b: number } {
+    const { r, g, b } = this.toLinearRGB();
+    const lms = mul3(linearRGBToLMS, [r, g, b]).map(Math.cbrt) as Triple;
+    const [l, a, bb] = mul3(lmsToOKLab, lms);
+    return { l, a, b: bb };
+  }
+
+  static fromOKLab(l: number, a: number, b: number) {
+    const lms = mul3(okLabToLMS, [l, a, b]).map((x) => x * x * x) as Triple;
+    const [r, g, bb] = mul3(lmsToLinearRGB, lms);
+    return Color.fromLinearRGB(r, g, bb);
+  }
+
+  // OKLab in polar form, hue in turns like `toHSV`
+  toOKLCH(): { lightness: number; chroma: number; hue: number } {
+    const { l, a, b } = this.toOKLab();
+    return { lightness: l, ...toPolar(a, b) };
+  }
+
+  static fromOKLCH(lightness: number, chroma: number, hue: number) {
+    const [a, b] = fromPolar(chroma, hue);
+    return Color.fromOKLab(lightness, a, b);
+  }
+
+  // Whether the color can be shown as it is, without clamping
+  isInGamut(tolerance: number = 1e-6) {
+    return [this.r, this.g, this.b].every(
+      (c) => c >= -tolerance && c <= 1 + tolerance
+    );
+  }
+
+  /*
+    Brings the color into the displayable range by lowering its OKLCH chroma,
+    keeping lightness and hue. Plain clamping shifts the hue instead.
+  */
+  toGamut(): Color {
+    if (this.isInGamut()) {
+      return this;
+    }
+
+    const { lightness, hue } = this.toOKLCH();
+    if (lightness >= 1) {
+      return Color.white.withAlpha(this.a);
+    } else if (lightness <= 0) {
+      return Color.black.withAlpha(this.a);
+    }
+
+    let low = 0;
+    let high = this.toOKLCH().chroma;
+    for (let i = 0; i < 30; i++) {
+      const mid = (low + high) / 2;
+      if (Color.fromOKLCH(lightness, mid, hue).isInGamut()) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return Color.fromOKLCH(lightness, low, hue).clamp().withAlpha(this.a);
+  }
+
+  /*
+    Blends in the given color space. 'srgb' is the same as `lerp`. The polar
+    spaces go around the shorter way in hue, and a grey end takes the hue of
+    the other end so the blend does not pass through unrelated hues. Alpha is
+    blended separately.
+  */
+  lerpIn(other: Color, factor: number, space: ColorSpace = 'oklab'): Color {
+    return space === 'srgb'
+      ? this.lerp(other, factor)
+      : this.lerpComponentsIn(other, factor, space).withAlpha(
+          this.a + (other.a - this.a) * factor
+        );
+  }
+
+  private lerpComponentsIn(
+    other: Color,
+    factor: number,
+    space: ColorSpace
+  ): Color {
+    const mix = (a: number, b: number) => a + (b - a) * factor;
+    const mixHue = (a: number, b: number) =>
+      wrapTurns(a + (wrapTurns(b - a + 0.5) - 0.5) * factor);
+
+    switch (space) {
+      case 'srgb':
+        return this.lerp(other, factor);
+      case 'linear': {
+        const a = this.toLinearRGB();
+        const b = other.toLinearRGB();
+        return Color.fromLinearRGB(mix(a.r, b.r), mix(a.g, b.g), mix(a.b, b.b));
+      }
+      case 'xyz': {
+        const a = this.toXYZ();
+        const b = other.toXYZ();
+        return Color.fromXYZ(mix(a.x, b.x), mix(a.y, b.y), mix(a.z, b.z));
+      }
+      case 'lab':
+      case 'oklab': {
+        const [a, b] =
+          space === 'lab'
+            ? [this.toLab(), other.toLab()]
+            : [this.toOKLab(), other.toOKLab()];
+        const from = space === 'lab' ? Color.fromLab : Color.fromOKLab;
+        return from(mix(a.l, b.l), mix(a.a, b.a), mix(a.b, b.b));
+      }
+      case 'lch':
+      case 'oklch':
+      case 'hsv': {
+        const [a, b] =
+          space === 'hsv'
+            ? [this.toHSV(), other.toHSV()].map(
+                ({ value, saturation, hue }) => ({
+                  lightness: value,
+                  chroma: saturation,
+                  hue,
+                })
+              )
+            : space === 'lch'
+            ? [this.toLCh(), other.toLCh()]
+            : [this.toOKLCH(), other.toOKLCH()];
+        const from =
+          space === 'hsv'
+            ? (l: number, c: number, h: number) => Color.fromHSV(h, c, l)
+            : space === 'lch'
+            ? Color.fromLCh
+            : Color.fromOKLCH;
+
+        const greyChroma = space === 'lch' ? 1e-3 : 1e-5;
+        const hueA = a.chroma < greyChroma ? b.hue : a.hue;
+        const hueB = b.chroma < greyChroma ? hueA : b.hue;
+
+        return from(
+          mix(a.lightness, b.lightness),
+          mix(a.chroma, b.chroma),
+          mixHue(hueA, hueB)
+        );
+      }
+    }
+  }
+
+  /*
+    Perceived difference between two colors. Around 1 (0.01 for 'oklab') is
+    the smallest difference most people notice.
+
+    - 'cie76': distance in CIELAB
+    - 'ciede2000': CIELAB with corrections for lightness, chroma and the blue
+      region, the current CIE recommendation
+    - 'oklab': distance in OKLab
+  */
+  deltaE(other: Color, formula: DeltaEFormula = 'ciede2000'): number {
+    if (formula === 'oklab') {
+      const a = this.toOKLab();
+      const b = other.toOKLab();
+      return Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b);
+    }
+
+    const a = this.toLab();
+    const b = other.toLab();
+    if (formula === 'cie76') {
+      return Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b);
+    }
+    return ciede2000(a, b);
+  }
+}
+
+export type ColorSpace =
+  | 'srgb'
+  | 'linear'
+  | 'xyz'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'hsv';
+
+export type DeltaEFormula = 'cie76' | 'ciede2000' | 'oklab';
+
+export type CSSColorFormat = 'hex' | 'rgb' | 'hsl' | 'hwb' | 'oklch';
+
+type ComponentKind =
+  | 'channel'
+  | 'percentage'
+  | 'hue'
+  | 'lightness'
+  | 'chroma'
+  | 'alpha';
+
+function parseError(text: string, reason: string) {
+  return new Error(`Color.parse: can not read '${text}', ${reason}`);
+}
+
+function clamp01(x: number) {
+  return Math.max(0, Math.min(1, x));
+}
+
+// Either 'a, b, c[, alpha]' or 'a b c[ / alpha]'
+function splitArguments(body: string, text: string) {
+  const commas = body.includes(',');
+  let parts: string[];
+  let alpha: string | undefined;
+
+  if (commas) {
+    parts = body.split(',').map((p) => p.trim());
+    if (parts.length === 4) {
+      alpha = parts.pop();
+    }
+  } else {
+    const [values, ...rest] = body.split('/');
+    if (rest.length > 1) {
+      throw parseError(text, "expected at most one '/'");
+    }
+    parts = values.trim().split(/\s+/);
+    alpha = rest.length === 1 ? rest[0].trim() : undefined;
+  }
+
+  if (parts.length !== 3 || parts.includes('') || alpha === '') {
+    throw parseError(text, 'expected 3 values and an optional alpha');
+  }
+  return { channels: parts as Triple<string>, alpha, commas };
+}
+
+/*
+  A single number, in the units each kind of component allows. 'none' is 0,
+  as in CSS. Unitless hues are degrees.
+*/
+function parseComponent(token: string, kind: ComponentKind, text: string) {
+  if (token === 'none') {
+    return 0;
+  }
+
+  const match =
+    /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/.exec(
+      token
+    );
+  const unit = match?.[2] ?? '';
+  const allowed =
+    kind === 'hue' ? ['', 'deg', 'rad', 'grad', 'turn'] : ['', '%'];
+  if (!match || !allowed.includes(unit)) {
+    throw parseError(text, `'${token}' is not a valid ${kind}`);
+  }
+
+  const x = Number(match[1]);
+  switch (kind) {
+    case 'channel':
+      return unit === '%' ? x / 100 : x / 255;
+    case 'percentage':
+      // Plain numbers mean percentages, as in the space separated syntax
+      return x / 100;
+    case 'hue': {
+      const turnsPer = { '': 360, deg: 360, rad: 2 * Math.PI, grad: 400 };
+      return unit === 'turn' ? x : x / turnsPer[unit as keyof typeof turnsPer];
+    }
+    case 'chroma':
+      // 100% is 0.4 in oklch()
+      return unit === '%' ? (x / 100) * 0.4 : x;
+    case 'lightness':
+    case 'alpha':
+      return unit === '%' ? x / 100 : x;
+  }
+}
+
+const colorFunctions: {
+  [name: string]:
+    | ((
+        channels: Triple<string>,
+        component: (token: string, kind: ComponentKind) => number
+      ) => Color)
+    | undefined;
+} = {
+  rgb: (channels, component) => {
+    const [r, g, b] = channels.map((c) => component(c, 'channel'));
+    return new Color(r, g, b);
+  },
+  hsl: ([h, s, l], component) =>
+    Color.fromHSL(
+      component(h, 'hue'),
+      clamp01(component(s, 'percentage')),
+      clamp01(component(l, 'percentage'))
+    ),
+  hwb: ([h, w, b], component) =>
+    Color.fromHWB(
+      component(h, 'hue'),
+      clamp01(component(w, 'percentage')),
+      clamp01(component(b, 'percentage'))
+    ),
+  oklch: ([l, c, h], component) =>
+    Color.fromOKLCH(
+      clamp01(component(l, 'lightness')),
+      Math.max(component(c, 'chroma'), 0),
+      component(h, 'hue')
+    ).toGamut(),
+};
+colorFunctions.rgba = colorFunctions.rgb;
+colorFunctions.hsla = colorFunctions.hsl;
+
+// How a drawn color mixes with what is already there, see `Color.over`
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'difference'
+  | 'exclusion'
+  | 'additive';
+
+// Per channel, backdrop first, from the W3C compositing spec
+const blendFunctions: {
+  [mode in Exclude<BlendMode, 'additive'>]: (cb: number, cs: number) => number;
+} = {
+  normal: (cb, cs) => cs,
+  multiply: (cb, cs) => cb * cs,
+  screen: (cb, cs) => cb + cs - cb * cs,
+  overlay: (cb, cs) => (cb <= 0.5 ? 2 * cb * cs : 1 - 2 * (1 - cb) * (1 - cs)),
+  darken: (cb, cs) => Math.min(cb, cs),
+  lighten: (cb, cs) => Math.max(cb, cs),
+  difference: (cb, cs) => Math.abs(cb - cs),
+  exclusion: (cb, cs) => cb + cs - 2 * cb * cs,
+};
+
+type Triple<T = number> = [T, T, T];
+
+function mul3(m: readonly Triple[], [x, y, z]: Triple): Triple {
+  return m.map(([a, b, c]) => a * x + b * y + c * z) as Triple;
+}
+
+// Into [0, 1)
+function wrapTurns(turns: number) {
+  return turns - Math.floor(turns);
+}
+
+function toPolar(a: number, b: number) {
+  return {
+    chroma: Math.hypot(a, b),
+    hue: wrapTurns(Math.atan2(b, a) / (2 * Math.PI)),
+  };
+}
+
+function fromPolar(chroma: number, hue: number): [number, number] {
+  const angle = hue * 2 * Math.PI;
+  return [chroma * Math.cos(angle), chroma * Math.sin(angle)];
+}
+
+// The sRGB transfer curve, mirrored for negative values
+function srgbToLinear(c: number) {
+  const x = Math.abs(c);
+  const linear = x <= 0.04045 ? x / 12.92 : ((x + 0.055) / 1.055) ** 2.4;
+  return Math.sign(c) * linear;
+}
+
+function linearToSRGB(c: number) {
+  const x = Math.abs(c);
+  const encoded = x <= 0.0031308 ? x * 12.92 : 1.055 * x ** (1 / 2.4) - 0.055;
+  return Math.sign(c) * encoded;
+}
+
+const linearRGBToXYZ: Triple[] = [
+  [0.4124564, 0.3575761, 0.1804375],
+  [0.2126729, 0.7151522, 0.072175],
+  [0.0193339, 0.119192, 0.9503041],
+];
+
+const xyzToLinearRGB: Triple[] = [
+  [3.2404542, -1.5371385, -0.4985314],
+  [-0.969266, 1.8760108, 0.041556],
+  [0.0556434, -0.2040259, 1.0572252],
+];
+
+const d65 = { x: 0.95047, y: 1, z: 1.08883 };
+
+// Cube root, with a straight segment near 0 where the cube root is too steep
+function labF(t: number) {
+  const delta = 6 / 29;
+  return t > delta ** 3 ? Math.cbrt(t) : t / (3 * delta * delta) + 4 / 29;
+}
+
+function labFInverse(t: number) {
+  const delta = 6 / 29;
+  return t > delta ? t ** 3 : 3 * delta * delta * (t - 4 / 29);
+}
+
+const linearRGBToLMS: Triple[] = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005],
+];
+
+const lmsToOKLab: Triple[] = [
+  [0.2104542553, 0.793617785, -0.0040720468],
+  [1.9779984951, -2.428592205, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.808675766],
+];
+
+const okLabToLMS: Triple[] = [
+  [1, 0.3963377774, 0.2158037573],
+  [1, -0.1055613458, -0.0638541728],
+  [1, -0.0894841775, -1.291485548],
+];
+
+const lmsToLinearRGB: Triple[] = [
+  [4.0767416621, -3.3077115913, 0.2309699292],
+  [-1.2684380046, 2.6097574011, -0.3413193965],
+  [-0.0041960863, -0.7034186147, 1.707614701],
+];
+
+// Sharma, Wu and Dalal, "The CIEDE2000 Color-Difference Formula" (2005)
+function ciede2000(
+  x: { l: number; a: number; b: number },
+  y: { l: number; a: number; b: number }
+): number {
+  const rad = Math.PI / 180;
+  const meanChroma = (Math.hypot(x.a, x.b) + Math.hypot(y.a, y.b)) / 2;
+  const g =
+    0.5 * (1 - Math.sqrt(meanChroma ** 7 / (meanChroma ** 7 + 25 ** 7)));
+
+  const prime = ({ l, a, b }: { l: number; a: number; b: number }) => {
+    const ap = a * (1 + g);
+    const c = Math.hypot(ap, b);
+    const h = c === 0 ? 0 : (Math.atan2(b, ap) / rad + 360) % 360;
+    return { l, c, h };
+  };
+  const p1 = prime(x);
+  const p2 = prime(y);
+
+  const deltaL = p2.l - p1.l;
+  const deltaC = p2.c - p1.c;
+
+  let deltaHue = 0;
+  if (p1.c * p2.c !== 0) {
+    deltaHue = p2.h - p1.h;
+    if (deltaHue > 180) {
+      deltaHue -= 360;
+    } else if (deltaHue < -180) {
+      deltaHue += 360;
+    }
+  }
+  const deltaH = 2 * Math.sqrt(p1.c * p2.c) * Math.sin((deltaHue * rad) / 2);
+
+  const meanL = (p1.l + p2.l) / 2;
+  const meanC = (p1.c + p2.c) / 2;
+
+  let meanH = p1.h + p2.h;
+  if (p1.c * p2.c !== 0) {
+    meanH =
+      Math.abs(p1.h - p2.h) <= 180
+        ? meanH / 2
+        : meanH < 360
+        ? (meanH + 360) / 2
+        : (meanH - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((meanH - 30) * rad) +
+    0.24 * Math.cos(2 * meanH * rad) +
+    0.32 * Math.cos((3 * meanH + 6) * rad) -
+    0.2 * Math.cos((4 * meanH - 63) * rad);
+
+  const sl =
+    1 + (0.015 * (meanL - 50) ** 2) / Math.sqrt(20 + (meanL - 50) ** 2);
+  const sc = 1 + 0.045 * meanC;
+  const sh = 1 + 0.015 * meanC * t;
+
+  const rotation =
+    -2 *
+    Math.sqrt(meanC ** 7 / (meanC ** 7 + 25 ** 7)) *
+    Math.sin(60 * rad * Math.exp(-(((meanH - 275) / 25) ** 2)));
+
+  return Math.sqrt(
+    (deltaL / sl) ** 2 +
+      (deltaC / sc) ** 2 +
+      (deltaH / sh) ** 2 +
+      rotation * (deltaC / sc) * (deltaH / sh)
+  );
 }
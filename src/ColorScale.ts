@@ -0,0 +1,323 @@
+import { Color } from './Color';
+
+// Maps t in [0, 1] to a color
+export type Colormap = (t: number) => Color;
+
+/*
+  A colormap through evenly spaced stops, blended in sRGB between them like
+  matplotlib does. The stops are dense enough that the blending space does
+  not visibly matter.
+*/
+export function colormapFromStops(stops: (Color | string)[]): Colormap {
+  const colors = stops.map((s) =>
+    typeof s === 'string' ? Color.fromHex(s) : s
+  );
+  const last = colors.length - 1;
+
+  return (t) => {
+    const x = Math.min(Math.max(t, 0), 1) * last;
+    const i = Math.min(Math.floor(x), last - 1);
+    return last === 0 ? colors[0] : colors[i].lerp(colors[i + 1], x - i);
+  };
+}
+
+export function reversed(colormap: Colormap): Colormap {
+  return (t) => colormap(1 - t);
+}
+
+/*
+  The matplotlib perceptually uniform maps: lightness increases steadily, so
+  they read correctly in greyscale and for most color vision deficiencies.
+  cividis is tuned to look the same with deuteranopia.
+*/
+export const viridis = colormapFromStops([
+  '#440154',
+  '#472d7b',
+  '#3b528b',
+  '#2c728e',
+  '#21908c',
+  '#27ad81',
+  '#5dc863',
+  '#aadc32',
+  '#fde725',
+]);
+
+export const magma = colormapFromStops([
+  '#000004',
+  '#1d1147',
+  '#51127c',
+  '#822681',
+  '#b63679',
+  '#e65164',
+  '#fb8861',
+  '#fec287',
+  '#fcfdbf',
+]);
+
+export const inferno = colormapFromStops([
+  '#000004',
+  '#1f0c48',
+  '#550f6d',
+  '#88226a',
+  '#ba3655',
+  '#e35932',
+  '#f98c0a',
+  '#f9c932',
+  '#fcffa4',
+]);
+
+export const plasma = colormapFromStops([
+  '#0d0887',
+  '#4c02a1',
+  '#7e03a8',
+  '#a92395',
+  '#cc4678',
+  '#e56b5d',
+  '#f89441',
+  '#fdc328',
+  '#f0f921',
+]);
+
+export const cividis = colormapFromStops([
+  '#00204d',
+  '#00336f',
+  '#39486b',
+  '#575c6d',
+  '#707173',
+  '#8a8779',
+  '#a69d75',
+  '#c4b56c',
+  '#e4cf5b',
+  '#ffea46',
+]);
+
+// A rainbow with smooth lightness, not uniform but good at showing detail
+export const turbo = colormapFromStops([
+  '#30123b',
+  '#4662d7',
+  '#36aaf9',
+  '#1ae4b6',
+  '#72fe5e',
+  '#c7ef34',
+  '#faba39',
+  '#f66b19',
+  '#cb2a04',
+  '#7a0403',
+]);
+
+// ColorBrewer diverging maps, light in the middle
+export const RdBu = colormapFromStops([
+  '#67001f',
+  '#b2182b',
+  '#d6604d',
+  '#f4a582',
+  '#fddbc7',
+  '#f7f7f7',
+  '#d1e5f0',
+  '#92c5de',
+  '#4393c3',
+  '#2166ac',
+  '#053061',
+]);
+
+export const BrBG = colormapFromStops([
+  '#543005',
+  '#8c510a',
+  '#bf812d',
+  '#dfc27d',
+  '#f6e8c3',
+  '#f5f5f5',
+  '#c7eae5',
+  '#80cdc1',
+  '#35978f',
+  '#01665e',
+  '#003c30',
+]);
+
+export const colormaps = {
+  viridis,
+  magma,
+  inferno,
+  plasma,
+  cividis,
+  turbo,
+  RdBu,
+  BrBG,
+};
+
+export type ColorScaleType = 'linear' | 'log' | 'diverging';
+
+/*
+  Maps values in `domain` to colors. Values outside the domain get the color
+  of the nearest end, NaN and values a log scale can not show get `nanColor`.
+*/
+export class ColorScale {
+  private constructor(
+    readonly type: ColorScaleType,
+    readonly domain: [number, number],
+    readonly colormap: Colormap,
+    // The value shown in the middle of the colormap for diverging scales
+    readonly center: number,
+    // Number of distinct colors for quantized scales
+    readonly steps: number | undefined,
+    readonly nanColor: Color
+  ) {}
+
+  static linear(domain: [number, number], colormap: Colormap = viridis) {
+    return new ColorScale(
+      'linear',
+      domain,
+      colormap,
+      0,
+      undefined,
+      Color.grey()
+    );
+  }
+
+  // Even steps for even ratios, for data spanning orders of magnitude
+  static log(domain: [number, number], colormap: Colormap = viridis) {
+    if (!(domain[0] > 0 && domain[1] > 0)) {
+      throw new Error(
+        `ColorScale: a log domain must be positive, got [${domain[0]}, ${domain[1]}]`
+      );
+    }
+    return new ColorScale('log', domain, colormap, 0, undefined, Color.grey());
+  }
+
+  /*
+    Each side of `center` gets half of the colormap, however far it reaches,
+    so the center always gets the neutral middle color.
+  */
+  static diverging(
+    domain: [number, number],
+    center: number = 0,
+    colormap: Colormap = RdBu
+  ) {
+    return new ColorScale(
+      'diverging',
+      domain,
+      colormap,
+      center,
+      undefined,
+      Color.grey()
+    );
+  }
+
+  // The same scale with only `steps` colors, sampled evenly from the colormap
+  quantized(steps: number | undefined): ColorScale {
+    return new ColorScale(
+      this.type,
+      this.domain,
+      this.colormap,
+      this.center,
+      steps === undefined ? undefined : Math.max(Math.round(steps), 2),
+      this.nanColor
+    );
+  }
+
+  withColormap(colormap: Colormap): ColorScale {
+    return new ColorScale(
+      this.type,
+      this.domain,
+      colormap,
+      this.center,
+      this.steps,
+      this.nanColor
+    );
+  }
+
+  withNaNColor(nanColor: Color): ColorScale {
+    return new ColorScale(
+      this.type,
+      this.domain,
+      this.colormap,
+      this.center,
+      this.steps,
+      nanColor
+    );
+  }
+
+  // Position of `value` along the colormap, in [0, 1], or NaN
+  normalize(value: number): number {
+    const [min, max] = this.domain;
+    const unit = (x: number, from: number, to: number) =>
+      from === to ? 0.5 : Math.min(Math.max((x - from) / (to - from), 0), 1);
+
+    if (Number.isNaN(value)) {
+      return NaN;
+    } else if (this.type === 'log') {
+      return value > 0
+        ? unit(Math.log(value), Math.log(min), Math.log(max))
+        : NaN;
+    } else if (this.type === 'diverging') {
+      return value < this.center
+        ? 0.5 * unit(value, min, this.center)
+        : 0.5 + 0.5 * unit(value, this.center, max);
+    }
+    return unit(value, min, max);
+  }
+
+  // The color at position t along the scale, after quantizing
+  colorAt(t: number): Color {
+    if (Number.isNaN(t)) {
+      return this.nanColor;
+    } else if (this.steps === undefined) {
+      return this.colormap(t);
+    }
+    const step = Math.min(Math.floor(t * this.steps), this.steps - 1);
+    return this.colormap(step / (this.steps - 1));
+  }
+
+  color(value: number): Color {
+    return this.colorAt(this.normalize(value));
+  }
+
+  // Round values across the domain for labelling, decades for log scales
+  ticks(count: number = 5): number[] {
+    const [min, max] = this.domain;
+    if (this.type !== 'log') {
+      return niceTicks(min, max, count);
+    }
+
+    const low = Math.min(min, max);
+    const high = Math.max(min, max);
+    const decades = niceTicks(Math.log10(low), Math.log10(high), count)
+      .filter(Number.isInteger)
+      .map((e) => 10 ** e);
+    return decades.length >= 2 ? decades : niceTicks(low, high, count);
+  }
+}
+
+/*
+  About `count` evenly spaced round numbers between min and max, with a step
+  of 1, 2 or 5 times a power of ten.
+*/
+export function niceTicks(min: number, max: number, count: number = 5) {
+  const low = Math.min(min, max);
+  const high = Math.max(min, max);
+  if (!Number.isFinite(low) || !Number.isFinite(high) || count < 1) {
+    return [];
+  } else if (low === high) {
+    return [low];
+  }
+
+  // Rounds the rough step to the nearest of 1, 2, 5 and 10 on a log scale
+  const rough = (high - low) / count;
+  const power = 10 ** Math.floor(Math.log10(rough));
+  const ratio = rough / power;
+  const step =
+    (ratio >= Math.sqrt(50)
+      ? 10
+      : ratio >= Math.sqrt(10)
+      ? 5
+      : ratio >= Math.sqrt(2)
+      ? 2
+      : 1) * power;
+
+  const ticks: number[] = [];
+  for (let i = Math.ceil(low / step); i * step <= high + step * 1e-9; i++) {
+    // Rounds away the floating point noise of i * step, e.g. 0.30000000000000004
+    ticks.push(Number((i * step).toPrecision(12)));
+  }
+  return ticks;
+}
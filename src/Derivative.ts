@@ -1,4 +1,5 @@
 import { ExplicitFunction, ImplicitFunction } from "../Plotter"
+import { ParametricEquation } from "../Interpolator"
 import { Vec2 } from "./Vec2"
 
 export const explictNumericDerivative = (x : number, fn : ExplicitFunction, dx : number) => {
@@ -17,4 +18,37 @@ export const implicitNumericDerivative = (p : Vec2, fn : ImplicitFunction, dx :
   const df_dy = explictNumericDerivative(y, n => fn(n, y), dy)
 
   return -df_dx / df_dy
-}
\ No newline at end of file
+}
+
+export const parametricNumericDerivative = (t : number, eqn : ParametricEquation, dt : number) => {
+  const p0 = eqn(t - dt/2)
+  const p1 = eqn(t + dt/2)
+
+  return p1.sub(p0).divScale(dt)
+}
+
+export const parametricNumericSecondDerivative = (t : number, eqn : ParametricEquation, dt : number) => {
+  const p0 = eqn(t - dt)
+  const p1 = eqn(t)
+  const p2 = eqn(t + dt)
+
+  return p2.sub(p1.scale(2)).add(p0).divScale(dt * dt)
+}
+
+export const implicitNumericGradient = (p : Vec2, fn : ImplicitFunction, dx : number, dy : number) => {
+  const {x, y} = p
+
+  return new Vec2(
+    explictNumericDerivative(x, n => fn(n, y), dx),
+    explictNumericDerivative(y, n => fn(x, n), dy)
+  )
+}
+
+// Signed curvature, positive when turning counter-clockwise: (x'y'' - y'x'') / |C'|^3
+export const parametricNumericCurvature = (t : number, eqn : ParametricEquation, dt : number) => {
+  const d1 = parametricNumericDerivative(t, eqn, dt)
+  const d2 = parametricNumericSecondDerivative(t, eqn, dt)
+  const speed = d1.magnitude()
+
+  return speed === 0 ? 0 : d1.crossMagnitude(d2) / (speed * speed * speed)
+}
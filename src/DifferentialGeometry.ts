@@ -0,0 +1,175 @@
+import { ParametricEquation } from '../Interpolator';
+import { CanvasRenderer } from '../Plotter';
+import { Canvas } from './Canvas';
+import { Color } from './Color';
+import {
+  parametricNumericCurvature,
+  parametricNumericDerivative,
+} from './Derivative';
+import { Vec2 } from './Vec2';
+
+export type FrenetFrame = {
+  t: number;
+  point: Vec2;
+  // Unit tangent, along the direction of travel
+  tangent: Vec2;
+  // Unit normal, pointing towards the center of curvature
+  normal: Vec2;
+  speed: number;
+  // Signed, positive where the curve turns counter-clockwise
+  curvature: number;
+  // Always 0: a curve that stays in the plane never twists out of it
+  torsion: number;
+  // Infinite where the curve is straight
+  radiusOfCurvature: number;
+};
+
+export function frenetFrame(
+  eqn: ParametricEquation,
+  t: number,
+  dt: number = 1e-4
+): FrenetFrame {
+  const velocity = parametricNumericDerivative(t, eqn, dt);
+  const tangent = velocity.normalized();
+  const curvature = parametricNumericCurvature(t, eqn, dt);
+
+  // crossAxisZ turns clockwise, so flip it for counter-clockwise turns
+  const normal = tangent.crossAxisZ().scale(curvature > 0 ? -1 : 1);
+
+  return {
+    t,
+    point: eqn(t),
+    tangent,
+    normal,
+    speed: velocity.magnitude(),
+    curvature,
+    torsion: 0,
+    radiusOfCurvature: curvature === 0 ? Infinity : 1 / Math.abs(curvature),
+  };
+}
+
+export type DifferentialGeometryOverlayOptions = {
+  // Parameter to draw the tangent, normal and osculating circle at
+  parameter: number;
+  range?: [number, number];
+  // Length of the tangent and normal arrows in pixels
+  arrowLength?: number;
+  comb?: { samples?: number; scale?: number } | false;
+  osculatingCircle?: boolean;
+  colors?: {
+    tangent?: Color;
+    normal?: Color;
+    comb?: Color;
+    osculatingCircle?: Color;
+  };
+};
+
+/*
+  Overlays for teaching the local geometry of a curve:
+
+  - the tangent and normal at the chosen parameter
+  - the osculating circle, the circle that best hugs the curve there, with
+    radius 1 / |curvature|
+  - a curvature comb, a tooth at each sample whose length is proportional to
+    the curvature there. Jumps in the comb are jumps in curvature, i.e. places
+    where the curve is only C1 and not C2.
+
+  Returns the renderer together with the frame at the chosen parameter.
+*/
+export function DifferentialGeometryOverlay(
+  eqn: ParametricEquation,
+  options: DifferentialGeometryOverlayOptions
+): { renderer: CanvasRenderer; frame: FrenetFrame } {
+  const [min, max] = options.range ?? [0, 1];
+  const frame = frenetFrame(eqn, options.parameter);
+  const colors = {
+    tangent: new Color(0.85, 0.1, 0.1),
+    normal: new Color(0.1, 0.6, 0.1),
+    comb: new Color(0.5, 0.2, 0.7),
+    osculatingCircle: new Color(0.1, 0.3, 0.9),
+    ...options.colors,
+  };
+
+  const renderer: CanvasRenderer = (canvas) => {
+    const thickness = canvas.pixelThickness;
+
+    if (options.comb !== false) {
+      const samples = options.comb?.samples ?? 200;
+      const scale = options.comb?.scale ?? 0.1;
+      const teeth = Array.from({ length: samples + 1 }, (_, i) => {
+        const { point, normal, curvature } = frenetFrame(
+          eqn,
+          min + ((max - min) * i) / samples
+        );
+        // Teeth stick out on the convex side, away from the center of curvature
+        return {
+          point,
+          tip: point.sub(normal.scale(Math.abs(curvature) * scale)),
+        };
+      });
+
+      teeth.forEach(({ point, tip }) => {
+        canvas.drawLine(point, tip, colors.comb, thickness);
+      });
+
+      canvas.drawPath(
+        { color: colors.comb, thickness: 1.5 },
+        ({ moveTo, lineTo }) => {
+          teeth.forEach(({ tip }, i) => (i === 0 ? moveTo(tip) : lineTo(tip)));
+        }
+      );
+    }
+
+    const { point, tangent, normal, radiusOfCurvature } = frame;
+
+    if (
+      (options.osculatingCircle ?? true) &&
+      Number.isFinite(radiusOfCurvature)
+    ) {
+      canvas.drawPath(
+        { color: colors.osculatingCircle, thickness: 1.5 },
+        ({ moveTo, lineTo }) => {
+          const center = point.add(normal.scale(radiusOfCurvature));
+          const steps = 128;
+          for (let i = 0; i <= steps; i++) {
+            const p = center.add(
+              Vec2.polar((2 * Math.PI * i) / steps, radiusOfCurvature)
+            );
+            if (i === 0) {
+              moveTo(p);
+            } else {
+              lineTo(p);
+            }
+          }
+        }
+      );
+      canvas.drawCircle(
+        point.add(normal.scale(radiusOfCurvature)),
+        thickness * 3,
+        colors.osculatingCircle
+      );
+    }
+
+    const arrowLength = (options.arrowLength ?? 50) * thickness;
+    drawArrow(canvas, point, tangent.scale(arrowLength), colors.tangent);
+    drawArrow(canvas, point, normal.scale(arrowLength), colors.normal);
+  };
+
+  return { renderer, frame };
+}
+
+function drawArrow(canvas: Canvas, from: Vec2, vector: Vec2, color: Color) {
+  const thickness = canvas.pixelThickness;
+  const to = from.add(vector);
+  const head = vector.normalized().scale(thickness * 10);
+
+  canvas.drawLine(from, to, color, thickness * 2);
+  canvas.drawPolygon(
+    [
+      to.add(head),
+      to.add(head.crossAxisZ().scale(0.5)),
+      to.sub(head.crossAxisZ().scale(0.5)),
+    ],
+    color
+  );
+}
@@ -0,0 +1,276 @@
+import { CanvasRenderer, ExplicitFunction, PlotStyle } from '../Plotter';
+import { Color } from './Color';
+import { GraphingCanvas, MathStr } from './GraphingCanvas';
+import { Matrix, VecN } from './Matrix';
+import { Vec2 } from './Vec2';
+
+export type FitResult = {
+  coefficients: number[];
+  evaluate: ExplicitFunction;
+  // Measured minus fitted value, one per sample
+  residuals: number[];
+  // Coefficient of determination, 1 for a perfect fit
+  rSquared: number;
+  // LaTeX for the fitted formula, without the surrounding $$
+  formula: string;
+};
+
+// Three significant digits, in scientific notation when very small or large
+function formatNumber(x: number): string {
+  const rounded = Number(x.toPrecision(3));
+  const magnitude = Math.abs(rounded);
+  if (rounded === 0 || (magnitude >= 1e-4 && magnitude < 1e6)) {
+    return rounded.toString();
+  }
+  const [mantissa, exponent] = rounded.toExponential(2).split('e');
+  return `${Number(mantissa)} \\cdot 10^{${Number(exponent)}}`;
+}
+
+/*
+  Joins `coefficient * term` pieces into a sum, folding the signs of the
+  coefficients into the operators, e.g. 2x^{2} - 3x + 1. Terms that are
+  rounding noise next to the largest one are left out.
+*/
+function formatSum(terms: [number, string][]): string {
+  const largest = Math.max(...terms.map(([c]) => Math.abs(c)));
+  const nonZero = terms.filter(
+    ([coefficient]) => Math.abs(coefficient) > 1e-12 * largest
+  );
+  if (nonZero.length === 0) {
+    return '0';
+  }
+
+  return nonZero
+    .map(([coefficient, term], i) => {
+      const magnitude = formatNumber(Math.abs(coefficient));
+      const body =
+        term === '' ? magnitude : magnitude === '1' ? term : magnitude + term;
+      const sign = coefficient < 0 ? '-' : '+';
+      return i === 0 ? (coefficient < 0 ? '-' : '') + body : ` ${sign} ${body}`;
+    })
+    .join('');
+}
+
+function rSquared(samples: Vec2[], residuals: number[]): number {
+  const mean = samples.reduce((sum, p) => sum + p.y, 0) / samples.length;
+  const total = samples.reduce((sum, p) => sum + (p.y - mean) ** 2, 0);
+  const residual = residuals.reduce((sum, r) => sum + r * r, 0);
+  if (total === 0) {
+    return residual === 0 ? 1 : 0;
+  }
+  return 1 - residual / total;
+}
+
+function fitResult(
+  samples: Vec2[],
+  coefficients: number[],
+  evaluate: ExplicitFunction,
+  formula: string
+): FitResult {
+  const residuals = samples.map((p) => p.y - evaluate(p.x));
+  return {
+    coefficients,
+    evaluate,
+    residuals,
+    rSquared: rSquared(samples, residuals),
+    formula,
+  };
+}
+
+/*
+  Least squares fit of y = c_0 f_0(x) + c_1 f_1(x) + ... for any basis
+  functions f_i. Undefined when the samples can not tell the basis functions
+  apart, e.g. with fewer samples than functions.
+*/
+export function fitBasis(
+  samples: Vec2[],
+  basis: ExplicitFunction[],
+  formula: (coefficients: number[]) => string = (coefficients) =>
+    'y = ' + formatSum(coefficients.map((c, i) => [c, `f_{${i}}(x)`]))
+): FitResult | undefined {
+  const design = Matrix.withProvider(
+    { rows: samples.length, columns: basis.length },
+    ({ row, column }) => basis[column](samples[row].x)
+  );
+  const solution = design.leastSquares(
+    samples.map((p) => p.y) as unknown as VecN<number>
+  );
+  if (!solution) {
+    return undefined;
+  }
+
+  const coefficients = [...solution];
+  const evaluate = (x: number) =>
+    basis.reduce((sum, f, i) => sum + coefficients[i] * f(x), 0);
+  return fitResult(samples, coefficients, evaluate, formula(coefficients));
+}
+
+// Coefficients are in increasing powers of x
+export function fitPolynomial(
+  samples: Vec2[],
+  degree: number
+): FitResult | undefined {
+  const basis = Array.from(
+    { length: degree + 1 },
+    (_, power) => (x: number) => x ** power
+  );
+
+  const fit = fitBasis(samples, basis, (coefficients) => {
+    const terms = coefficients.map((c, power): [number, string] => [
+      c,
+      power === 0 ? '' : power === 1 ? 'x' : `x^{${power}}`,
+    ]);
+    return 'y = ' + formatSum(terms.reverse());
+  });
+  if (!fit) {
+    return undefined;
+  }
+
+  // Horner's rule, cheaper and more accurate than summing powers
+  const { coefficients } = fit;
+  const evaluate = (x: number) =>
+    coefficients.reduceRight((accum, c) => accum * x + c, 0);
+  return { ...fit, evaluate };
+}
+
+/*
+  Fits y = a e^(bx), coefficients [a, b]. Taking logs turns it into the
+  straight line ln y = ln a + bx, which gives a starting point but weighs
+  small values too heavily, so a few Gauss-Newton steps then minimize the
+  squared residuals of y itself. Needs every y to be positive.
+*/
+export function fitExponential(samples: Vec2[]): FitResult | undefined {
+  if (samples.some((p) => p.y <= 0)) {
+    return undefined;
+  }
+
+  const line = fitPolynomial(
+    samples.map((p) => new Vec2(p.x, Math.log(p.y))),
+    1
+  );
+  if (!line) {
+    return undefined;
+  }
+
+  let [a, b] = [Math.exp(line.coefficients[0]), line.coefficients[1]];
+  const squaredError = (a: number, b: number) =>
+    samples.reduce((sum, p) => sum + (p.y - a * Math.exp(b * p.x)) ** 2, 0);
+
+  for (let i = 0; i < 20; i++) {
+    // Jacobian of the model with respect to (a, b)
+    const jacobian = Matrix.withProvider(
+      { rows: samples.length, columns: 2 },
+      ({ row, column }) => {
+        const { x } = samples[row];
+        return column === 0 ? Math.exp(b * x) : a * x * Math.exp(b * x);
+      }
+    );
+    const step = jacobian.leastSquares(
+      samples.map((p) => p.y - a * Math.exp(b * p.x)) as unknown as VecN<number>
+    );
+    if (!step) {
+      break;
+    }
+
+    // Halve steps that overshoot, Gauss-Newton is not guaranteed to descend
+    let scale = 1;
+    while (
+      scale > 1e-4 &&
+      squaredError(a + scale * step[0], b + scale * step[1]) >
+        squaredError(a, b)
+    ) {
+      scale /= 2;
+    }
+    if (scale <= 1e-4) {
+      break;
+    }
+
+    a += scale * step[0];
+    b += scale * step[1];
+    if (Math.abs(scale * step[1]) < 1e-12 * Math.max(1, Math.abs(b))) {
+      break;
+    }
+  }
+
+  return fitResult(
+    samples,
+    [a, b],
+    (x) => a * Math.exp(b * x),
+    `y = ${formatNumber(a)} e^{${formatSum([[b, 'x']])}}`
+  );
+}
+
+export type FitRendererOptions = {
+  curve?: PlotStyle;
+  pointColor?: Color;
+  residualColor?: Color;
+  showResiduals?: boolean;
+};
+
+/*
+  Draws the samples, the fitted curve across the viewport and a segment from
+  each sample to the curve showing its residual.
+*/
+export function FitRenderer(
+  samples: Vec2[],
+  fit: FitResult,
+  options: FitRendererOptions = {}
+): CanvasRenderer {
+  const curve = options.curve ?? {
+    color: new Color(0.1, 0.3, 0.9),
+    thickness: 2,
+  };
+  const pointColor = options.pointColor ?? Color.black;
+  const residualColor = options.residualColor ?? new Color(0.85, 0.1, 0.1);
+
+  return (canvas, viewport) => {
+    const thickness = canvas.pixelThickness;
+
+    if (options.showResiduals ?? true) {
+      samples.forEach((p) => {
+        canvas.drawLine(
+          p,
+          new Vec2(p.x, fit.evaluate(p.x)),
+          residualColor,
+          thickness * 1.5
+        );
+      });
+    }
+
+    canvas.drawPath(curve, ({ moveTo, lineTo }) => {
+      const steps = 400;
+      let penDown = false;
+      for (let i = 0; i <= steps; i++) {
+        const x = viewport.origin.x + (viewport.size.x * i) / steps;
+        const y = fit.evaluate(x);
+        if (!Number.isFinite(y)) {
+          penDown = false;
+        } else if (penDown) {
+          lineTo(new Vec2(x, y));
+        } else {
+          moveTo(new Vec2(x, y));
+          penDown = true;
+        }
+      }
+    });
+
+    samples.forEach((p) => canvas.drawCircle(p, thickness * 4, pointColor));
+  };
+}
+
+// Shows the fitted formula and R^2 in a placard, replacing any earlier one with the same key
+export function addFitPlacard(
+  graphingCanvas: GraphingCanvas,
+  fit: FitResult,
+  key: string = 'fit',
+  position: { canvasPosition: Vec2; anchor: Vec2 } = {
+    canvasPosition: new Vec2(0, 1),
+    anchor: new Vec2(0, 1),
+  }
+) {
+  graphingCanvas.addPlacard(
+    key,
+    MathStr(`${fit.formula} \\quad R^2 = ${fit.rSquared.toFixed(4)}`),
+    position
+  );
+}
@@ -4,8 +4,9 @@ import { Rect } from './Rect';
 import { Vec2 } from './Vec2';
 
 import * as latexjs from 'latex.js';
-import { Matrix } from './Matrix';
+import { Transform2D } from './Transform2D';
 import { CanvasRenderer } from '../Plotter';
+import { ColorScale } from './ColorScale';
 
 export const MathStr = (x: string) => `$$${x}$$`;
 
@@ -25,6 +26,17 @@ export type AxisSettings = {
   thickness: number;
 };
 
+// Slightly see-through so plots stay visible underneath
+const placardColor = Color.white.withAlpha(0.94);
+
+export type ColorbarSettings = {
+  // In normalized canvas coordinates like placards, vertical when taller than wide
+  rect: Rect;
+  tickCount: number;
+  // LaTeX shown above the bar
+  label?: string;
+};
+
 export class GraphingCanvas {
   constructor(public readonly drawCanvas: Canvas) {}
 
@@ -104,8 +116,7 @@ export class GraphingCanvas {
       positionRelativeTo: 'canvas',
       anchor: pos.anchor,
       styler: (element) => {
-        element.style.backgroundColor =
-          (color ?? Color.white).hexString() + 'ef';
+        element.style.backgroundColor = (color ?? placardColor).rgbaString();
         element.style.width = 'max-content';
         element.style.height = 'max-content';
         element.style.padding = '0px 8px 0px 8px';
@@ -192,6 +203,8 @@ export class GraphingCanvas {
       });
     }
 
+    this.drawColorbar();
+
     Object.values(this.texts).forEach((v) => {
       this.positionElement(
         v.element,
@@ -262,6 +275,111 @@ export class GraphingCanvas {
     }
   }
 
+  private colorbar:
+    | { scale: ColorScale; settings: ColorbarSettings; keys: string[] }
+    | undefined = undefined;
+
+  /*
+    Shows how `scale` maps values to colors in a bar over the canvas, with
+    labelled ticks. Replaces any earlier colorbar.
+  */
+  addColorbar(scale: ColorScale, settings: Partial<ColorbarSettings> = {}) {
+    this.removeColorbar();
+
+    const s: ColorbarSettings = {
+      rect: Rect.create(0.9, 0.15, 0.04, 0.7),
+      tickCount: 5,
+      ...settings,
+    };
+    const { rect } = s;
+    const vertical = rect.height >= rect.width;
+    const gap = 0.01;
+
+    const keys = scale.ticks(s.tickCount).map((tick, i) => {
+      const t = scale.normalize(tick);
+      const key = `__colorbar-tick-${i}`;
+      this.addLatexString(key, {
+        source: MathStr(formatTick(tick, scale.type === 'log')),
+        positionRelativeTo: 'canvas',
+        position: vertical
+          ? new Vec2(rect.origin.x - gap, rect.origin.y + t * rect.height)
+          : new Vec2(rect.origin.x + t * rect.width, rect.origin.y - gap),
+        anchor: vertical ? new Vec2(1, 0.5) : new Vec2(0.5, 1),
+        styler: colorbarTextStyler,
+      });
+      return key;
+    });
+
+    if (s.label) {
+      this.addLatexString('__colorbar-label', {
+        source: s.label,
+        positionRelativeTo: 'canvas',
+        position: new Vec2(rect.midpoint.x, rect.farCorner.y + gap),
+        anchor: new Vec2(0.5, 0),
+        styler: colorbarTextStyler,
+      });
+      keys.push('__colorbar-label');
+    }
+
+    this.colorbar = { scale, settings: s, keys };
+  }
+
+  removeColorbar() {
+    this.colorbar?.keys.forEach((key) => this.removeLatexString(key));
+    this.colorbar = undefined;
+  }
+
+  private drawColorbar() {
+    if (!this.colorbar) {
+      return;
+    }
+
+    const { scale, settings } = this.colorbar;
+    const rect = new Rect(
+      this.canvasRect.convertNormalizedCoordinate(settings.rect.origin),
+      settings.rect.size.componentMul(this.canvasRect.size)
+    );
+    const vertical = rect.height >= rect.width;
+    const length = vertical ? rect.height : rect.width;
+
+    // A slice every couple of pixels, overlapping so no seams show
+    const slices = Math.max(Math.ceil(length / 2), 2);
+    for (let i = 0; i < slices; i++) {
+      const start = (i / slices) * length;
+      const size = length / slices + 0.5;
+      const fillColor = scale.colorAt((i + 0.5) / slices);
+
+      this.drawCanvas.drawRect(
+        vertical
+          ? Rect.create(rect.origin.x, rect.origin.y + start, rect.width, size)
+          : Rect.create(
+              rect.origin.x + start,
+              rect.origin.y,
+              size,
+              rect.height
+            ),
+        { fillColor }
+      );
+    }
+
+    this.drawCanvas.drawRect(rect, {
+      stroke: { color: this.borderColor, thickness: 1 },
+    });
+
+    scale.ticks(settings.tickCount).forEach((tick) => {
+      const t = scale.normalize(tick);
+      const [start, end] = vertical
+        ? [new Vec2(0, t * rect.height), new Vec2(-4, t * rect.height)]
+        : [new Vec2(t * rect.width, 0), new Vec2(t * rect.width, -4)];
+      this.drawCanvas.drawLine(
+        rect.origin.add(start),
+        rect.origin.add(end),
+        this.borderColor,
+        1
+      );
+    });
+  }
+
   private removeLatexString(key: string) {
     if (key in this.texts) {
       const { element } = this.texts[key];
@@ -297,14 +415,15 @@ export class GraphingCanvas {
     let y = 0;
 
     if (positionRelativeTo === 'viewport') {
-      const canvasMat = this.drawCanvas.canvasMat(1).toDOMMatrix();
-      const viewportMat = Matrix.viewportTransformation(
-        this.canvasRect,
-        this.viewport
-      ).toDOMMatrix();
-
-      const mat = viewportMat.multiply(canvasMat).inverse();
-      const p = mat.transformPoint(new DOMPoint(position.x, position.y));
+      const transform = this.drawCanvas
+        .canvasTransform(1)
+        .then(Transform2D.viewport(this.canvasRect, this.viewport))
+        .inverse();
+      if (!transform) {
+        return;
+      }
+
+      const p = transform.apply(position);
       x = p.x;
       y = p.y;
     } else {
@@ -350,7 +469,7 @@ export class GraphingCanvas {
         canvasPosition: new Vec2(0.5, 1),
         anchor: new Vec2(0.5, 1),
       },
-      Color.white,
+      placardColor,
       Color.grey(0.6)
     );
   }
@@ -367,7 +486,7 @@ export class GraphingCanvas {
         canvasPosition: new Vec2(0.5, 0),
         anchor: new Vec2(0.5, 0),
       },
-      Color.grey(0.95),
+      Color.grey(0.95).withAlpha(placardColor.a),
       Color.grey(0.6)
     );
   }
@@ -381,6 +500,26 @@ try {
   );
 } catch (e) {}
 
+// Decades of log scales as powers of ten, other values to 3 significant digits
+function formatTick(x: number, powerOfTen: boolean) {
+  const exponent = Math.round(Math.log10(Math.abs(x)));
+  if (powerOfTen && x > 0 && Math.abs(x - 10 ** exponent) < 1e-9 * x) {
+    return `10^{${exponent}}`;
+  }
+
+  const rounded = Number(x.toPrecision(3));
+  return rounded !== 0 && (Math.abs(rounded) < 1e-3 || Math.abs(rounded) >= 1e5)
+    ? rounded.toExponential(2).replace(/e\+?(.*)$/, ' \\cdot 10^{$1}')
+    : rounded.toString();
+}
+
+function colorbarTextStyler(element: HTMLElement) {
+  element.style.width = 'max-content';
+  element.style.height = 'max-content';
+  element.style.margin = '0px';
+  element.style.fontSize = '12px';
+}
+
 function createLaTeXElement(text: string) {
   const element = document.createElement('div');
 
@@ -0,0 +1,492 @@
+import { ParametricEquation } from '../Interpolator';
+import { CanvasRenderer } from '../Plotter';
+import { BezierCurve } from './BezierCurve';
+import { Color } from './Color';
+import { parametricNumericDerivative } from './Derivative';
+import { Matrix } from './Matrix';
+import { Vec2 } from './Vec2';
+
+export type IntersectableCurve = ParametricEquation | BezierCurve;
+
+// The infinite line through `point` along `direction`
+export type Line = { point: Vec2; direction: Vec2 };
+
+/*
+  Where two curves meet: `point` is at parameter `s` on the first and `t` on
+  the second. For a curve and a line, `t` is the line parameter, i.e. the
+  point is line.point + t * line.direction. Where the curves run together
+  they meet only once, at the start of that stretch, and `overlap` is where
+  they part again.
+*/
+export type CurveIntersection = {
+  s: number;
+  t: number;
+  point: Vec2;
+  overlap?: { s: number; t: number; point: Vec2 };
+};
+
+export type IntersectionOptions = {
+  // Distance below which two curves are considered to touch
+  tolerance?: number;
+  // Number of line segments general parametric curves are flattened into
+  segments?: number;
+};
+
+const defaultTolerance = 1e-9;
+const defaultSegments = 128;
+
+function asParametric(curve: IntersectableCurve): ParametricEquation {
+  return curve instanceof BezierCurve ? curve.toParametricEquation() : curve;
+}
+
+function clamp01(x: number) {
+  return Math.min(Math.max(x, 0), 1);
+}
+
+/*
+  Newton's method on F(s, t) = a(s) - b(t), which is zero at an intersection.
+  Each step solves the 2x2 system J * delta = -F with J = [a'(s), -b'(t)].
+*/
+function polishIntersection(
+  a: ParametricEquation,
+  b: ParametricEquation,
+  s: number,
+  t: number,
+  tolerance: number
+): CurveIntersection | undefined {
+  const h = 1e-6;
+
+  for (let i = 0; i < 20; i++) {
+    const f = a(s).sub(b(t));
+    if (f.magnitude() < tolerance) {
+      break;
+    }
+
+    const jacobian = Matrix.withVec2Columns(
+      parametricNumericDerivative(s, a, h),
+      parametricNumericDerivative(t, b, h).negate()
+    );
+    const delta = jacobian.solve(f.negate().components);
+    if (!delta) {
+      // Tangential contact, Newton can not improve on the current guess
+      break;
+    }
+
+    s = clamp01(s + delta[0]);
+    t = clamp01(t + delta[1]);
+  }
+
+  const point = a(s);
+  return point.distance(b(t)) < Math.sqrt(tolerance)
+    ? { s, t, point }
+    : undefined;
+}
+
+function withoutDuplicates(
+  intersections: CurveIntersection[],
+  parameterDistance: number = 1e-6
+): CurveIntersection[] {
+  return intersections
+    .sort((x, y) => x.s - y.s || x.t - y.t)
+    .filter(
+      (x, i, all) =>
+        !all
+          .slice(0, i)
+          .some(
+            (y) =>
+              Math.abs(x.s - y.s) < parameterDistance &&
+              Math.abs(x.t - y.t) < parameterDistance
+          )
+    );
+}
+
+// Parameter of the point on `eqn` closest to p, by Newton's method from t
+function closestParameter(eqn: ParametricEquation, p: Vec2, t: number) {
+  for (let i = 0; i < 8; i++) {
+    const tangent = parametricNumericDerivative(t, eqn, 1e-6);
+    const lengthSquared = tangent.magnitudeSquared();
+    if (lengthSquared === 0) {
+      break;
+    }
+    t = clamp01(t - eqn(t).sub(p).dot(tangent) / lengthSquared);
+  }
+  return t;
+}
+
+/*
+  Drops hits within the distance `polishIntersection` accepts of the one
+  before, and folds runs of hits between which the curves coincide into the
+  first of them. The curves coincide between two hits if points a quarter,
+  half and three quarters of the way along a are within the tolerance of b.
+  The ends of such a run are then moved out to where the curves part, and
+  runs no longer than `minOverlap` are kept as a single touching hit.
+*/
+function mergeIntersections(
+  a: ParametricEquation,
+  b: ParametricEquation,
+  intersections: CurveIntersection[],
+  tolerance: number,
+  minOverlap: number
+): CurveIntersection[] {
+  // Parameter on b of a(s) if that is on b, starting from a guess
+  const onB = (s: number, guess: number) => {
+    const p = a(s);
+    const t = closestParameter(b, p, guess);
+    return p.distance(b(t)) < tolerance ? t : undefined;
+  };
+
+  const coincide = (x: CurveIntersection, y: CurveIntersection) =>
+    [0.25, 0.5, 0.75].every(
+      (f) => onB(x.s + (y.s - x.s) * f, x.t + (y.t - x.t) * f) !== undefined
+    );
+
+  // From y, which is on both curves, towards s = limit until they part
+  const extend = (
+    x: CurveIntersection,
+    y: CurveIntersection,
+    limit: number
+  ): CurveIntersection => {
+    const slope = y.s === x.s ? 0 : (y.t - x.t) / (y.s - x.s);
+    const guess = (s: number) => y.t + (s - y.s) * slope;
+
+    let inside = y.s;
+    let outside = limit;
+    let t = onB(limit, guess(limit));
+    if (t !== undefined) {
+      inside = limit;
+    } else {
+      t = y.t;
+      for (let i = 0; i < 40; i++) {
+        const s = (inside + outside) / 2;
+        const tm = onB(s, guess(s));
+        if (tm === undefined) {
+          outside = s;
+        } else {
+          inside = s;
+          t = tm;
+        }
+      }
+    }
+    return { s: inside, t, point: a(inside) };
+  };
+
+  const merged: CurveIntersection[] = [];
+  withoutDuplicates(intersections).forEach((hit) => {
+    const last = merged[merged.length - 1];
+    const end = last?.overlap ?? last;
+    if (end && end.point.distance(hit.point) < Math.sqrt(tolerance)) {
+      return;
+    }
+    if (end && coincide(end, hit)) {
+      const { s, t, point } = hit;
+      merged[merged.length - 1] = { ...last, overlap: { s, t, point } };
+    } else {
+      merged.push(hit);
+    }
+  });
+
+  return merged.map((hit, i) => {
+    const { overlap, ...start } = hit;
+    if (!overlap) {
+      return hit;
+    }
+    const before = merged[i - 1];
+    const after = merged[i + 1];
+    const first = extend(overlap, start, before?.overlap?.s ?? before?.s ?? 0);
+    const last = extend(start, overlap, after?.s ?? 1);
+    const middle = a((first.s + last.s) / 2);
+    const length = first.point.distance(middle) + middle.distance(last.point);
+    return length > minOverlap ? { ...first, overlap: last } : start;
+  });
+}
+
+function flatten(eqn: ParametricEquation, segments: number): Vec2[] {
+  return Array.from({ length: segments + 1 }, (_, i) => eqn(i / segments));
+}
+
+// Intersection of segments p0-p1 and q0-q1 as fractions along each
+function segmentIntersection(
+  p0: Vec2,
+  p1: Vec2,
+  q0: Vec2,
+  q1: Vec2
+): [number, number] | undefined {
+  const r = p1.sub(p0);
+  const d = q1.sub(q0);
+  const denominator = r.crossMagnitude(d);
+  if (denominator === 0) {
+    return undefined;
+  }
+
+  const pq = q0.sub(p0);
+  const u = pq.crossMagnitude(d) / denominator;
+  const v = pq.crossMagnitude(r) / denominator;
+
+  return u >= 0 && u <= 1 && v >= 0 && v <= 1 ? [u, v] : undefined;
+}
+
+/*
+  Intersects the flattened curves segment against segment, then polishes every
+  hit with Newton's method on the real curves.
+*/
+function polylineIntersections(
+  a: ParametricEquation,
+  b: ParametricEquation,
+  segments: number,
+  tolerance: number,
+  selfIntersection: boolean
+): CurveIntersection[] {
+  const pa = flatten(a, segments);
+  const pb = selfIntersection ? pa : flatten(b, segments);
+  const results: CurveIntersection[] = [];
+
+  // A closed curve meets itself where its ends join, which is not a crossing
+  const closed = selfIntersection && pa[0].distance(pa[segments]) <= tolerance;
+  const apart = (s: number, t: number) => {
+    const d = Math.abs(s - t);
+    return (closed ? Math.min(d, 1 - d) : d) > 1 / segments;
+  };
+
+  for (let i = 0; i < segments; i++) {
+    for (let j = selfIntersection ? i + 2 : 0; j < segments; j++) {
+      if (closed && i === 0 && j === segments - 1) {
+        continue;
+      }
+
+      const hit = segmentIntersection(pa[i], pa[i + 1], pb[j], pb[j + 1]);
+      if (!hit) {
+        continue;
+      }
+
+      const polished = polishIntersection(
+        a,
+        b,
+        (i + hit[0]) / segments,
+        (j + hit[1]) / segments,
+        tolerance
+      );
+
+      if (polished && (!selfIntersection || apart(polished.s, polished.t))) {
+        results.push(polished);
+      }
+    }
+  }
+
+  return mergeIntersections(a, b, results, tolerance, Math.sqrt(tolerance));
+}
+
+/*
+  Splits both curves until their control polygon bounds stop overlapping or
+  become small, relying on each curve lying inside its control polygon.
+*/
+function bezierIntersections(
+  a: BezierCurve,
+  b: BezierCurve,
+  tolerance: number
+): CurveIntersection[] {
+  const scale = Math.max(
+    a.hullBounds().size.magnitude(),
+    b.hullBounds().size.magnitude()
+  );
+  const subdivisionTolerance = 1e-3 * scale;
+  const candidates: [number, number][] = [];
+
+  const search = (
+    a: BezierCurve,
+    [a0, a1]: [number, number],
+    b: BezierCurve,
+    [b0, b1]: [number, number],
+    depth: number
+  ) => {
+    const aBounds = a.hullBounds();
+    const bBounds = b.hullBounds();
+    if (!aBounds.intersects(bBounds)) {
+      return;
+    }
+
+    const aSize = aBounds.size.magnitude();
+    const bSize = bBounds.size.magnitude();
+    if (
+      depth > 40 ||
+      (aSize < subdivisionTolerance && bSize < subdivisionTolerance)
+    ) {
+      candidates.push([(a0 + a1) / 2, (b0 + b1) / 2]);
+      return;
+    }
+
+    if (aSize >= bSize) {
+      const am = (a0 + a1) / 2;
+      const [left, right] = a.split(0.5);
+      search(left, [a0, am], b, [b0, b1], depth + 1);
+      search(right, [am, a1], b, [b0, b1], depth + 1);
+    } else {
+      const bm = (b0 + b1) / 2;
+      const [left, right] = b.split(0.5);
+      search(a, [a0, a1], left, [b0, bm], depth + 1);
+      search(a, [a0, a1], right, [bm, b1], depth + 1);
+    }
+  };
+
+  search(a, [0, 1], b, [0, 1], 0);
+
+  const ea = a.toParametricEquation();
+  const eb = b.toParametricEquation();
+  return mergeIntersections(
+    ea,
+    eb,
+    candidates
+      .map(([s, t]) => polishIntersection(ea, eb, s, t, tolerance))
+      .filter((x): x is CurveIntersection => x !== undefined),
+    tolerance,
+    subdivisionTolerance
+  );
+}
+
+export function intersectCurves(
+  a: IntersectableCurve,
+  b: IntersectableCurve,
+  options: IntersectionOptions = {}
+): CurveIntersection[] {
+  const tolerance = options.tolerance ?? defaultTolerance;
+
+  if (a instanceof BezierCurve && b instanceof BezierCurve) {
+    return bezierIntersections(a, b, tolerance);
+  }
+
+  return polylineIntersections(
+    asParametric(a),
+    asParametric(b),
+    options.segments ?? defaultSegments,
+    tolerance,
+    false
+  );
+}
+
+/*
+  The signed distance of a point from the line is proportional to
+  direction x (p - line.point), so intersections are the zeros of that
+  along the curve. For Bezier curves the signed distances of the control
+  points are themselves a 1D Bezier curve, whose roots are found exactly.
+*/
+export function intersectCurveLine(
+  curve: IntersectableCurve,
+  line: Line,
+  options: IntersectionOptions = {}
+): CurveIntersection[] {
+  const eqn = asParametric(curve);
+  const signedDistance = (p: Vec2) =>
+    line.direction.crossMagnitude(p.sub(line.point));
+
+  let parameters: number[] = [];
+
+  if (curve instanceof BezierCurve) {
+    parameters = BezierCurve.roots(curve.points.map(signedDistance));
+  } else {
+    const segments = options.segments ?? defaultSegments;
+    const distances = flatten(eqn, segments).map(signedDistance);
+
+    for (let i = 0; i < segments; i++) {
+      const d0 = distances[i];
+      const d1 = distances[i + 1];
+
+      if (d0 === 0) {
+        parameters.push(i / segments);
+      } else if (d0 * d1 < 0) {
+        // Bisection keeps the root bracketed even where the curve is tangent
+        let low = i / segments;
+        let high = (i + 1) / segments;
+        for (let k = 0; k < 50; k++) {
+          const mid = (low + high) / 2;
+          if (signedDistance(eqn(mid)) * d0 > 0) {
+            low = mid;
+          } else {
+            high = mid;
+          }
+        }
+        parameters.push((low + high) / 2);
+      }
+    }
+
+    if (distances[segments] === 0) {
+      parameters.push(1);
+    }
+  }
+
+  const polish = (s: number) => {
+    const g = (s: number) => signedDistance(eqn(s));
+    for (let i = 0; i < 4; i++) {
+      const h = 1e-6;
+      const slope = (g(s + h / 2) - g(s - h / 2)) / h;
+      const next = slope === 0 ? s : clamp01(s - g(s) / slope);
+      if (Math.abs(g(next)) >= Math.abs(g(s))) {
+        break;
+      }
+      s = next;
+    }
+    return s;
+  };
+
+  const lengthSquared = line.direction.magnitudeSquared();
+  return parameters.map(polish).map((s) => {
+    const point = eqn(s);
+    const t =
+      lengthSquared === 0
+        ? 0
+        : point.sub(line.point).dot(line.direction) / lengthSquared;
+    return { s, t, point };
+  });
+}
+
+// Points where a curve crosses itself, with s < t the two parameters there
+export function selfIntersections(
+  curve: IntersectableCurve,
+  options: IntersectionOptions = {}
+): CurveIntersection[] {
+  const eqn = asParametric(curve);
+  return polylineIntersections(
+    eqn,
+    eqn,
+    options.segments ?? defaultSegments,
+    options.tolerance ?? defaultTolerance,
+    true
+  ).map((hit) => {
+    if (hit.s < hit.t) {
+      return hit;
+    }
+    const { s, t, point, overlap } = hit;
+    return overlap
+      ? {
+          s: t,
+          t: s,
+          point,
+          overlap: { ...overlap, s: overlap.t, t: overlap.s },
+        }
+      : { s: t, t: s, point };
+  });
+}
+
+export function IntersectionRenderer(
+  intersections: CurveIntersection[],
+  color: Color = new Color(0.9, 0.1, 0.1)
+): CanvasRenderer {
+  return (canvas) => {
+    const radius = canvas.pixelThickness * 7;
+    const arm = new Vec2(radius, radius);
+
+    intersections.forEach(({ point }) => {
+      canvas.drawCircle(point, radius, color, 'stroke');
+      canvas.drawLine(
+        point.sub(arm),
+        point.add(arm),
+        color,
+        canvas.pixelThickness * 2
+      );
+      canvas.drawLine(
+        point.add(arm.mapX((x) => -x)),
+        point.sub(arm.mapX((x) => -x)),
+        color,
+        canvas.pixelThickness * 2
+      );
+    });
+  };
+}
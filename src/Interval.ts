@@ -0,0 +1,225 @@
+/*
+  A closed range of numbers [min, max]. Each operation returns an interval
+  holding every result of applying it to numbers in its inputs, so
+  evaluating an expression on intervals bounds the expression over a whole
+  region. The bounds are widened by a rounding error on every operation to
+  stay valid in floating point. Results may be wider than the true range,
+  e.g. x.sub(x) is not [0, 0], but are never narrower.
+
+  The empty interval, from taking sqrt or log of negative numbers only, has
+  NaN bounds and stays empty through further operations.
+*/
+export class Interval {
+  constructor(readonly min: number, readonly max: number) {}
+
+  static readonly empty = new Interval(NaN, NaN);
+  static readonly entire = new Interval(-Infinity, Infinity);
+
+  static point(x: number) {
+    return new Interval(x, x);
+  }
+
+  static from(x: Interval | number) {
+    return typeof x === 'number' ? Interval.point(x) : x;
+  }
+
+  // The smallest interval holding all the given bounds, widened for rounding
+  private static around(...bounds: number[]) {
+    if (bounds.some(Number.isNaN)) {
+      return Interval.empty;
+    }
+    return new Interval(
+      roundDown(Math.min(...bounds)),
+      roundUp(Math.max(...bounds))
+    );
+  }
+
+  get isEmpty() {
+    return Number.isNaN(this.min);
+  }
+
+  get width() {
+    return this.max - this.min;
+  }
+
+  get midpoint() {
+    return (this.min + this.max) / 2;
+  }
+
+  contains(x: number) {
+    return this.min <= x && x <= this.max;
+  }
+
+  toString() {
+    return this.isEmpty ? '[]' : `[${this.min}, ${this.max}]`;
+  }
+
+  add(other: Interval | number) {
+    const o = Interval.from(other);
+    return Interval.around(this.min + o.min, this.max + o.max);
+  }
+
+  sub(other: Interval | number) {
+    const o = Interval.from(other);
+    return Interval.around(this.min - o.max, this.max - o.min);
+  }
+
+  negate() {
+    return new Interval(-this.max, -this.min);
+  }
+
+  mul(other: Interval | number) {
+    const o = Interval.from(other);
+    if (this.isEmpty || o.isEmpty) {
+      return Interval.empty;
+    }
+    return Interval.around(
+      ...[
+        this.min * o.min,
+        this.min * o.max,
+        this.max * o.min,
+        this.max * o.max,
+      ]
+        // 0 times infinity is NaN, but 0 is the right bound for it here
+        .map((x) => (Number.isNaN(x) ? 0 : x))
+    );
+  }
+
+  // Everything, when other contains 0
+  div(other: Interval | number) {
+    const o = Interval.from(other);
+    if (this.isEmpty || o.isEmpty) {
+      return Interval.empty;
+    } else if (o.contains(0)) {
+      return Interval.entire;
+    }
+    return this.mul(Interval.around(1 / o.max, 1 / o.min));
+  }
+
+  // Tighter than this.mul(this), which treats the two factors as independent
+  sqr() {
+    return this.pow(2);
+  }
+
+  // Integer powers
+  pow(n: number) {
+    if (n === 0) {
+      return this.isEmpty ? Interval.empty : Interval.point(1);
+    } else if (n < 0) {
+      return Interval.point(1).div(this.pow(-n));
+    } else if (n % 2 === 1 || this.min >= 0) {
+      return Interval.around(this.min ** n, this.max ** n);
+    } else if (this.max <= 0) {
+      return Interval.around(this.max ** n, this.min ** n);
+    }
+    return Interval.around(0, Math.max(-this.min, this.max) ** n);
+  }
+
+  abs() {
+    if (this.isEmpty) {
+      return Interval.empty;
+    } else if (this.min >= 0) {
+      return this;
+    } else if (this.max <= 0) {
+      return this.negate();
+    }
+    return new Interval(0, Math.max(-this.min, this.max));
+  }
+
+  // Without the negative part, empty when it is all negative
+  sqrt() {
+    return this.max < 0
+      ? Interval.empty
+      : Interval.around(Math.sqrt(Math.max(this.min, 0)), Math.sqrt(this.max));
+  }
+
+  exp() {
+    return Interval.around(Math.exp(this.min), Math.exp(this.max));
+  }
+
+  // Without the part at or below 0, empty when there is nothing else
+  log() {
+    return this.max <= 0
+      ? Interval.empty
+      : Interval.around(Math.log(Math.max(this.min, 0)), Math.log(this.max));
+  }
+
+  sin() {
+    return this.sub(Math.PI / 2).cos();
+  }
+
+  cos() {
+    if (this.isEmpty) {
+      return Interval.empty;
+    } else if (this.width >= 2 * Math.PI) {
+      return new Interval(-1, 1);
+    }
+
+    const bounds = [Math.cos(this.min), Math.cos(this.max)];
+    if (containsPeriodically(this, 0, 2 * Math.PI)) {
+      bounds.push(1);
+    }
+    if (containsPeriodically(this, Math.PI, 2 * Math.PI)) {
+      bounds.push(-1);
+    }
+    return Interval.around(...bounds).clampTo(-1, 1);
+  }
+
+  // Everything across a pole
+  tan() {
+    if (this.isEmpty) {
+      return Interval.empty;
+    } else if (
+      this.width >= Math.PI ||
+      containsPeriodically(this, Math.PI / 2, Math.PI)
+    ) {
+      return Interval.entire;
+    }
+    return Interval.around(Math.tan(this.min), Math.tan(this.max));
+  }
+
+  atan() {
+    return Interval.around(Math.atan(this.min), Math.atan(this.max));
+  }
+
+  minimum(other: Interval | number) {
+    const o = Interval.from(other);
+    return new Interval(Math.min(this.min, o.min), Math.min(this.max, o.max));
+  }
+
+  maximum(other: Interval | number) {
+    const o = Interval.from(other);
+    return new Interval(Math.max(this.min, o.min), Math.max(this.max, o.max));
+  }
+
+  private clampTo(min: number, max: number) {
+    return new Interval(Math.max(this.min, min), Math.min(this.max, max));
+  }
+}
+
+// Whether the interval contains value + k period for some integer k
+function containsPeriodically(
+  interval: Interval,
+  value: number,
+  period: number
+) {
+  const k = Math.ceil((interval.min - value) / period);
+  return value + k * period <= interval.max;
+}
+
+/*
+  One rounding error outwards. Sums and products in floating point are
+  within half a unit in the last place of the exact result, so this keeps
+  the exact bound inside.
+*/
+function roundDown(x: number) {
+  return Number.isFinite(x)
+    ? x - Math.max(Math.abs(x) * Number.EPSILON, Number.MIN_VALUE)
+    : x;
+}
+
+function roundUp(x: number) {
+  return Number.isFinite(x)
+    ? x + Math.max(Math.abs(x) * Number.EPSILON, Number.MIN_VALUE)
+    : x;
+}
@@ -0,0 +1,135 @@
+import { CanvasRenderer } from '../Plotter';
+import { Color } from './Color';
+import { Matrix } from './Matrix';
+import { Vec2 } from './Vec2';
+
+export type LinearTransformationOptions = {
+  // How far along the animation from the identity to the matrix, 0 to 1
+  amount?: number;
+  // Grid lines are drawn at the integers from -gridExtent to gridExtent
+  gridExtent?: number;
+  colors?: {
+    grid?: Color;
+    basis?: [Color, Color];
+    circle?: Color;
+    eigenvectors?: Color;
+    singularAxes?: Color;
+  };
+};
+
+/*
+  Where the identity is at time 0 and the target matrix at `duration`, then
+  back again, with easing at both ends. Meant for driving `amount` from a
+  render loop.
+*/
+export function pingPongAmount(time: number, duration: number = 2): number {
+  const phase = (time / duration) % 2;
+  const linear = phase < 1 ? phase : 2 - phase;
+  return (1 - Math.cos(Math.PI * linear)) / 2;
+}
+
+/*
+  Draws what a 2x2 matrix does to the plane:
+
+  - the integer grid and the basis vectors after the transformation
+  - the unit circle, faint, and the ellipse it is mapped to
+  - the lines spanned by the real eigenvectors, which the matrix only
+    stretches. Complex eigenvalues mean there are none, the matrix rotates.
+  - the singular axes sigma_i * u_i, which are the axes of the ellipse
+
+  With `amount` below 1 everything is drawn for the matrix part way between
+  the identity and the target, (1 - amount) * I + amount * M.
+*/
+export function LinearTransformationRenderer(
+  matrix: Matrix<2, 2>,
+  options: LinearTransformationOptions = {}
+): CanvasRenderer {
+  const amount = options.amount ?? 1;
+  const extent = options.gridExtent ?? 10;
+  const colors = {
+    grid: Color.grey(0.75),
+    basis: [new Color(0.85, 0.1, 0.1), new Color(0.1, 0.6, 0.1)],
+    circle: new Color(0.1, 0.3, 0.9),
+    eigenvectors: new Color(0.9, 0.55, 0),
+    singularAxes: new Color(0.5, 0.2, 0.7),
+    ...options.colors,
+  };
+
+  const m = Matrix.identity(2)
+    .scalarMul(1 - amount)
+    .add(matrix.scalarMul(amount)) as Matrix<2, 2>;
+  const transform = (p: Vec2) => m.mulVec2(p);
+  const eigenpairs = m.eigen();
+  const { u, singularValues } = m.svd();
+
+  return (canvas, viewport) => {
+    const thickness = canvas.pixelThickness;
+    // Long enough to cross the viewport from anywhere inside it
+    const reach = viewport.size.magnitude() + viewport.midpoint.magnitude();
+
+    for (let i = -extent; i <= extent; i++) {
+      canvas.drawLine(
+        transform(new Vec2(i, -extent)),
+        transform(new Vec2(i, extent)),
+        colors.grid,
+        thickness
+      );
+      canvas.drawLine(
+        transform(new Vec2(-extent, i)),
+        transform(new Vec2(extent, i)),
+        colors.grid,
+        thickness
+      );
+    }
+
+    const circle = (f: (p: Vec2) => Vec2) => {
+      const steps = 128;
+      return Array.from({ length: steps + 1 }, (_, i) =>
+        f(Vec2.polar((2 * Math.PI * i) / steps))
+      );
+    };
+
+    canvas.drawPath(
+      { color: colors.circle.lerp(Color.white, 0.6), thickness: 1 },
+      ({ moveTo, lineTo }) => {
+        circle((p) => p).forEach((p, i) => (i === 0 ? moveTo(p) : lineTo(p)));
+      }
+    );
+    canvas.drawPath(
+      { color: colors.circle, thickness: 2 },
+      ({ moveTo, lineTo }) => {
+        circle(transform).forEach((p, i) => (i === 0 ? moveTo(p) : lineTo(p)));
+      }
+    );
+
+    eigenpairs.forEach(({ vector }) => {
+      if (!vector) {
+        return;
+      }
+      const direction = new Vec2(vector[0], vector[1]).scale(reach);
+      canvas.drawPath(
+        {
+          color: colors.eigenvectors,
+          thickness: 1.5,
+          dashPattern: [6 * thickness, 4 * thickness],
+        },
+        ({ moveTo, lineTo }) => {
+          moveTo(direction.negate());
+          lineTo(direction);
+        }
+      );
+    });
+
+    singularValues.forEach((sigma, i) => {
+      const [x, y] = u.columnAtIndex(i);
+      const axis = new Vec2(x, y).scale(sigma);
+      canvas.drawLine(axis.negate(), axis, colors.singularAxes, thickness * 2);
+    });
+
+    [Vec2.right, Vec2.up].forEach((basis, i) => {
+      const tip = transform(basis);
+      canvas.drawLine(Vec2.zero, tip, colors.basis[i], thickness * 3);
+      canvas.drawCircle(tip, thickness * 4, colors.basis[i]);
+    });
+  };
+}
@@ -1,5 +1,6 @@
 import { Rect } from './Rect';
 import { Vec2 } from './Vec2';
+import { Vec3 } from './Vec3';
 
 export type NVec<N extends number, Element> = readonly Element[] & {
   length: N;
@@ -33,6 +34,71 @@ export function VecNScalarMul<N extends number>(
   return NVecMap(a, (a, idx) => a * scalar);
 }
 
+/*
+  Thomas algorithm for tridiagonal systems in O(n). Row i reads
+
+    lower[i] * x[i - 1] + diagonal[i] * x[i] + upper[i] * x[i + 1] = rhs[i]
+
+  so lower[0] and upper[n - 1] are ignored. No pivoting, so the matrix should
+  be diagonally dominant (as spline systems are).
+*/
+export function solveTridiagonal(
+  lower: readonly number[],
+  diagonal: readonly number[],
+  upper: readonly number[],
+  rhs: readonly number[]
+): number[] {
+  const n = diagonal.length;
+  const c = new Array<number>(n).fill(0);
+  const d = new Array<number>(n).fill(0);
+
+  for (let i = 0; i < n; i++) {
+    const denominator = diagonal[i] - (i > 0 ? lower[i] * c[i - 1] : 0);
+    c[i] = i < n - 1 ? upper[i] / denominator : 0;
+    d[i] = (rhs[i] - (i > 0 ? lower[i] * d[i - 1] : 0)) / denominator;
+  }
+
+  const x = d;
+  for (let i = n - 2; i >= 0; i--) {
+    x[i] -= c[i] * x[i + 1];
+  }
+  return x;
+}
+
+/*
+  Tridiagonal system that also wraps around at the corners, as in periodic
+  problems: lower[0] multiplies x[n - 1] and upper[n - 1] multiplies x[0].
+  Solved as a plain tridiagonal system plus a Sherman-Morrison correction.
+*/
+export function solveCyclicTridiagonal(
+  lower: readonly number[],
+  diagonal: readonly number[],
+  upper: readonly number[],
+  rhs: readonly number[]
+): number[] {
+  const n = diagonal.length;
+  const topRight = lower[0];
+  const bottomLeft = upper[n - 1];
+
+  const gamma = -diagonal[0];
+  const modified = [...diagonal];
+  modified[0] = diagonal[0] - gamma;
+  modified[n - 1] = diagonal[n - 1] - (bottomLeft * topRight) / gamma;
+
+  const x = solveTridiagonal(lower, modified, upper, rhs);
+
+  const u = new Array<number>(n).fill(0);
+  u[0] = gamma;
+  u[n - 1] = bottomLeft;
+  const z = solveTridiagonal(lower, modified, upper, u);
+
+  const factor =
+    (x[0] + (topRight * x[n - 1]) / gamma) /
+    (1 + z[0] + (topRight * z[n - 1]) / gamma);
+
+  return x.map((v, i) => v - factor * z[i]);
+}
+
 type Tuple<T, N extends number> = N extends N ? number extends N ? T[] : _TupleOf<T, N, []> : never;
 type _TupleOf<T, N extends number, R extends unknown[]> = R['length'] extends N ? R : _TupleOf<T, N, [T, ...R]>;
 
@@ -41,8 +107,361 @@ type FlattenTuple<T extends any[][]> = T extends [infer Head extends any[], ...i
 
 type ComponentsTuple<R extends number, C extends number> = FlattenTuple<Tuple<Tuple<number, R>, C>>
 
+export type LUDecomposition<N extends number> = {
+  lower: Matrix<N, N>;
+  upper: Matrix<N, N>;
+  permutation: number[];
+  parity: 1 | -1;
+};
+
+export type Complex = { re: number; im: number };
+
+// An eigenvalue and, for real eigenvalues, a unit eigenvector
+export type Eigenpair<N extends number> = {
+  value: Complex;
+  vector: VecN<N> | undefined;
+};
+
+// Thin singular value decomposition A = U diag(singularValues) V^T
+export type SingularValueDecomposition<R extends number, C extends number> = {
+  u: Matrix<R, number>;
+  singularValues: number[];
+  v: Matrix<C, number>;
+};
+
+// Roots of x^2 - trace x + determinant, i.e. the eigenvalues of a 2x2 block
+function quadraticEigenvalues(trace: number, determinant: number): Complex[] {
+  const discriminant = (trace * trace) / 4 - determinant;
+  const root = Math.sqrt(Math.abs(discriminant));
+  return discriminant >= 0
+    ? [
+        { re: trace / 2 + root, im: 0 },
+        { re: trace / 2 - root, im: 0 },
+      ]
+    : [
+        { re: trace / 2, im: root },
+        { re: trace / 2, im: -root },
+      ];
+}
+
+/*
+  Reduces a square matrix, given as rows, to upper Hessenberg form in place
+  by Gaussian elimination with pivoting. The result is similar to the input,
+  so it has the same eigenvalues.
+*/
+function toHessenberg(a: number[][]): number[][] {
+  const n = a.length;
+  for (let m = 1; m < n - 1; m++) {
+    let pivot = m;
+    for (let i = m + 1; i < n; i++) {
+      if (Math.abs(a[i][m - 1]) > Math.abs(a[pivot][m - 1])) {
+        pivot = i;
+      }
+    }
+    const x = a[pivot][m - 1];
+    if (pivot !== m) {
+      [a[pivot], a[m]] = [a[m], a[pivot]];
+      a.forEach((row) => ([row[pivot], row[m]] = [row[m], row[pivot]]));
+    }
+    if (x === 0) {
+      continue;
+    }
+
+    for (let i = m + 1; i < n; i++) {
+      const y = a[i][m - 1] / x;
+      if (y === 0) {
+        continue;
+      }
+      a[i][m - 1] = 0;
+      for (let j = m; j < n; j++) {
+        a[i][j] -= y * a[m][j];
+      }
+      for (let j = 0; j < n; j++) {
+        a[j][m] += y * a[j][i];
+      }
+    }
+  }
+  return a;
+}
+
+/*
+  Eigenvalues of an upper Hessenberg matrix, given as rows and overwritten,
+  by Francis double shift QR iteration as in EISPACK's hqr. Each step chases
+  a bulge down the subdiagonal, shifted by the eigenvalues of the trailing
+  2x2 block, until a subdiagonal entry vanishes and a 1x1 or 2x2 block splits
+  off. Exceptional shifts after 10 and 20 steps break the cycles that plain
+  shifts can fall into, e.g. for permutation matrices.
+*/
+function hessenbergEigenvalues(
+  a: number[][],
+  maxIterations: number
+): Complex[] {
+  const n = a.length;
+  const values = new Array<Complex>(n);
+
+  let norm = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = Math.max(i - 1, 0); j < n; j++) {
+      norm += Math.abs(a[i][j]);
+    }
+  }
+
+  // The sum of the exceptional shifts, taken out of the diagonal
+  let shift = 0;
+  let last = n - 1;
+  while (last >= 0) {
+    let iterations = 0;
+    let l: number;
+    do {
+      // The start of the unreduced block that ends at `last`
+      for (l = last; l >= 1; l--) {
+        const s = Math.abs(a[l - 1][l - 1]) + Math.abs(a[l][l]) || norm;
+        if (Math.abs(a[l][l - 1]) + s === s) {
+          a[l][l - 1] = 0;
+          break;
+        }
+      }
+
+      let x = a[last][last];
+      if (l === last) {
+        values[last] = { re: x + shift, im: 0 };
+        last--;
+        continue;
+      }
+
+      let y = a[last - 1][last - 1];
+      let w = a[last][last - 1] * a[last - 1][last];
+      if (l === last - 1) {
+        const p = (y - x) / 2;
+        const q = p * p + w;
+        x += shift;
+        if (q >= 0) {
+          const z = p + (p < 0 ? -1 : 1) * Math.sqrt(q);
+          values[last - 1] = { re: x + z, im: 0 };
+          values[last] = { re: z !== 0 ? x - w / z : x + z, im: 0 };
+        } else {
+          const z = Math.sqrt(-q);
+          values[last - 1] = { re: x + p, im: z };
+          values[last] = { re: x + p, im: -z };
+        }
+        last -= 2;
+        continue;
+      }
+
+      if (iterations === maxIterations) {
+        throw new Error(
+          `Matrix.eigenvalues: QR iteration did not converge in ${maxIterations} steps`
+        );
+      }
+      if (iterations === 10 || iterations === 20) {
+        shift += x;
+        for (let i = 0; i <= last; i++) {
+          a[i][i] -= x;
+        }
+        const s = Math.abs(a[last][last - 1]) + Math.abs(a[last - 1][last - 2]);
+        x = y = 0.75 * s;
+        w = -0.4375 * s * s;
+      }
+      iterations++;
+
+      // Where the bulge starts: the lowest row that decouples well enough
+      let m: number;
+      let p = 0;
+      let q = 0;
+      let r = 0;
+      for (m = last - 2; m >= l; m--) {
+        const z = a[m][m];
+        const dx = x - z;
+        const dy = y - z;
+        p = (dx * dy - w) / a[m + 1][m] + a[m][m + 1];
+        q = a[m + 1][m + 1] - z - dx - dy;
+        r = a[m + 2][m + 1];
+        const s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+        p /= s;
+        q /= s;
+        r /= s;
+        if (m === l) {
+          break;
+        }
+        const u = Math.abs(a[m][m - 1]) * (Math.abs(q) + Math.abs(r));
+        const v =
+          Math.abs(p) *
+          (Math.abs(a[m - 1][m - 1]) + Math.abs(z) + Math.abs(a[m + 1][m + 1]));
+        if (u + v === v) {
+          break;
+        }
+      }
+
+      for (let i = m + 2; i <= last; i++) {
+        a[i][i - 2] = 0;
+        if (i !== m + 2) {
+          a[i][i - 3] = 0;
+        }
+      }
+
+      // Chases the bulge down with 3x3 Householder reflections
+      for (let k = m; k <= last - 1; k++) {
+        if (k !== m) {
+          p = a[k][k - 1];
+          q = a[k + 1][k - 1];
+          r = k !== last - 1 ? a[k + 2][k - 1] : 0;
+          x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+          if (x !== 0) {
+            p /= x;
+            q /= x;
+            r /= x;
+          }
+        }
+
+        const s = (p < 0 ? -1 : 1) * Math.sqrt(p * p + q * q + r * r);
+        if (s === 0) {
+          continue;
+        }
+        if (k === m) {
+          if (l !== m) {
+            a[k][k - 1] = -a[k][k - 1];
+          }
+        } else {
+          a[k][k - 1] = -s * x;
+        }
+        p += s;
+        x = p / s;
+        y = q / s;
+        const z = r / s;
+        q /= p;
+        r /= p;
+
+        for (let j = k; j <= last; j++) {
+          let t = a[k][j] + q * a[k + 1][j];
+          if (k !== last - 1) {
+            t += r * a[k + 2][j];
+            a[k + 2][j] -= t * z;
+          }
+          a[k + 1][j] -= t * y;
+          a[k][j] -= t * x;
+        }
+        for (let i = l; i <= Math.min(last, k + 3); i++) {
+          let t = x * a[i][k] + y * a[i][k + 1];
+          if (k !== last - 1) {
+            t += z * a[i][k + 2];
+            a[i][k + 2] -= t * r;
+          }
+          a[i][k + 1] -= t * q;
+          a[i][k] -= t;
+        }
+      }
+    } while (l < last - 1);
+  }
+
+  return values;
+}
+
+/*
+  Where the entries of a matrix live: entry (row, column) is
+  buffer[offset + row * rowStride + column * columnStride]. Several matrices
+  can share a buffer, a transpose for example is the same buffer with the
+  strides swapped.
+*/
+type StridedStorage<R extends number, C extends number> = {
+  buffer: Float64Array;
+  offset: number;
+  rows: R;
+  columns: C;
+  rowStride: number;
+  columnStride: number;
+};
+
+/*
+  Column-major and immutable, except for the `...Into` methods which write
+  their result into an existing matrix to avoid allocating. Their `out`
+  matrix may be one of the operands, but not a transpose of one.
+*/
 export class Matrix<R extends number, C extends number> {
-  constructor(private readonly data: NVec<C, VecN<R>>) {}
+  private readonly buffer: Float64Array;
+  private readonly offset: number;
+  private readonly rowCount: R;
+  private readonly columnCount: C;
+  private readonly rowStride: number;
+  private readonly columnStride: number;
+
+  constructor(data: NVec<C, VecN<R>> | StridedStorage<R, C>) {
+    if (Array.isArray(data)) {
+      const columns = data as NVec<C, VecN<R>>;
+      const rows = (columns[0]?.length ?? 0) as R;
+
+      this.buffer = new Float64Array(rows * columns.length);
+      columns.forEach((column, c) => this.buffer.set(column, c * rows));
+      this.offset = 0;
+      this.rowCount = rows;
+      this.columnCount = columns.length as C;
+      this.rowStride = 1;
+      this.columnStride = rows;
+    } else {
+      const storage = data as StridedStorage<R, C>;
+      this.buffer = storage.buffer;
+      this.offset = storage.offset;
+      this.rowCount = storage.rows;
+      this.columnCount = storage.columns;
+      this.rowStride = storage.rowStride;
+      this.columnStride = storage.columnStride;
+    }
+  }
+
+  // A new, zeroed, column-major matrix
+  private static allocate<R extends number, C extends number>(
+    rows: R,
+    columns: C
+  ): Matrix<R, C> {
+    return new Matrix<R, C>({
+      buffer: new Float64Array(rows * columns),
+      offset: 0,
+      rows,
+      columns,
+      rowStride: 1,
+      columnStride: rows,
+    });
+  }
+
+  private index(row: number, column: number): number {
+    return this.offset + row * this.rowStride + column * this.columnStride;
+  }
+
+  // Column-major without gaps, so the entries can be walked with a single index
+  private get isDense(): boolean {
+    return (
+      this.offset === 0 &&
+      this.rowStride === 1 &&
+      this.columnStride === this.rowCount
+    );
+  }
+
+  /*
+    Throws when `out` shares storage with an operand but sees it laid out
+    differently, like its transpose: writing the result would then change
+    the entries of a matrix that is not `out`.
+  */
+  private static checkOut<R extends number, C extends number>(
+    method: string,
+    out: Matrix<R, C>,
+    a: Matrix<any, any>,
+    b: Matrix<any, any>
+  ) {
+    const sameLayout = (m: Matrix<any, any>) =>
+      m.rowCount === out.rowCount &&
+      m.columnCount === out.columnCount &&
+      m.offset === out.offset &&
+      (m.rowCount <= 1 || m.rowStride === out.rowStride) &&
+      (m.columnCount <= 1 || m.columnStride === out.columnStride);
+
+    if (
+      (a.buffer === out.buffer && !sameLayout(a)) ||
+      (b.buffer === out.buffer && !sameLayout(b))
+    ) {
+      throw new Error(
+        `${method}: out shares storage with an operand laid out differently, like its transpose`
+      );
+    }
+  }
 
   static withVec2(v: Vec2): Matrix<2, 1> {
     return new Matrix([v.components]) as Matrix<2, 1>;
@@ -60,27 +479,30 @@ export class Matrix<R extends number, C extends number> {
     x: { rows: R; columns: C },
     f: (column: number) => VecN<R>
   ): Matrix<R, C> {
-    const data = Array.from({ length: x.columns }, (_, column) => {
-      return f(column);
-    }) as unknown as NVec<C, VecN<R>>;
-    return new Matrix<R, C>(data);
+    const m = Matrix.allocate(x.rows, x.columns);
+    for (let column = 0; column < x.columns; column++) {
+      m.buffer.set(f(column), column * x.rows);
+    }
+    return m;
   }
 
   static withProvider<R extends number, C extends number>(
     x: { rows: R; columns: C },
     f: (rc: { row: number; column: number }) => number
   ): Matrix<R, C> {
-    return this.withColumnProvider(x, (column) => {
-      return Array.from({ length: x.rows }, (_, row) =>
-        f({ row, column })
-      ) as unknown as VecN<R>;
-    });
+    const m = Matrix.allocate(x.rows, x.columns);
+    for (let column = 0; column < x.columns; column++) {
+      for (let row = 0; row < x.rows; row++) {
+        m.buffer[column * x.rows + row] = f({ row, column });
+      }
+    }
+    return m;
   }
 
   get size(): { rows: R; columns: C } {
     return {
-      rows: this.data[0]?.length ?? (0 as R),
-      columns: this.data.length,
+      rows: this.rowCount,
+      columns: this.columnCount,
     };
   }
 
@@ -88,19 +510,19 @@ export class Matrix<R extends number, C extends number> {
     rows: R;
     columns: C;
   }): Matrix<R, C> {
-    return this.withProvider(x, () => 0);
+    return Matrix.allocate(x.rows, x.columns);
   }
 
   static identity<N extends number>(n: N): Matrix<N, N> {
-    return this.withProvider({ rows: n, columns: n }, ({ row, column }) =>
-      row === column ? 1 : 0
-    );
+    const m = Matrix.allocate(n, n);
+    for (let i = 0; i < n; i++) {
+      m.buffer[i * n + i] = 1;
+    }
+    return m;
   }
 
   static rowVec<N extends number>(v: VecN<N>): Matrix<1, N> {
-    return this.withProvider({ rows: 1, columns: v.length }, ({ column }) => {
-      return v[column];
-    });
+    return Matrix.columnVec(v).transpose();
   }
 
   static columnVec<N extends number>(v: VecN<N>): Matrix<N, 1> {
@@ -108,76 +530,760 @@ export class Matrix<R extends number, C extends number> {
   }
 
   get columnMajorComponents(): ComponentsTuple<R, C> {
-    return this.data.reduce((a, b) => a.concat(b), [] as number[]) as ComponentsTuple<R, C>
+    const components: number[] = [];
+    for (let column = 0; column < this.columnCount; column++) {
+      for (let row = 0; row < this.rowCount; row++) {
+        components.push(this.buffer[this.index(row, column)]);
+      }
+    }
+    return components as ComponentsTuple<R, C>;
   }
 
-  atColumnRow(column : number, row : number): number {
-    return this.columnAtIndex(column)[row];
+  atColumnRow(column: number, row: number): number {
+    return this.buffer[this.index(row, column)];
   }
 
   at(x: { row: number; column: number }): number {
-    return this.atColumnRow(x.column, x.row);
+    return this.buffer[this.index(x.row, x.column)];
   }
 
   columnAtIndex(column: number): NVec<R, number> {
-    return this.data[column];
+    return Array.from({ length: this.rowCount }, (_, row) =>
+      this.atColumnRow(column, row)
+    ) as unknown as NVec<R, number>;
   }
 
   rowAtIndex(row: number): NVec<C, number> {
-    return NVecMap(this.data, (_, column) => {
-      return this.at({ row, column });
-    });
+    return Array.from({ length: this.columnCount }, (_, column) =>
+      this.atColumnRow(column, row)
+    ) as unknown as NVec<C, number>;
   }
 
-  add(other: Matrix<R, C>) {
-    return Matrix.withProvider(this.size, (rc) => {
-      return this.at(rc) + other.at(rc);
-    });
+  add(other: Matrix<R, C>): Matrix<R, C> {
+    return this.addInto(
+      other,
+      Matrix.allocate(this.rowCount, this.columnCount)
+    );
   }
 
-  sub(other: Matrix<R, C>) {
-    return Matrix.withProvider(this.size, (rc) => {
-      return this.at(rc) - other.at(rc);
-    });
+  sub(other: Matrix<R, C>): Matrix<R, C> {
+    return this.subInto(
+      other,
+      Matrix.allocate(this.rowCount, this.columnCount)
+    );
   }
 
-  scalarMul(scalar: number) {
-    return Matrix.withProvider(this.size, (rc) => {
-      return this.at(rc) * scalar;
-    });
+  scalarMul(scalar: number): Matrix<R, C> {
+    return this.scalarMulInto(
+      scalar,
+      Matrix.allocate(this.rowCount, this.columnCount)
+    );
+  }
+
+  // out = this + other
+  addInto(other: Matrix<R, C>, out: Matrix<R, C>): Matrix<R, C> {
+    return this.combineInto('Matrix.addInto', other, out, 1, 1);
+  }
+
+  // out = this - other
+  subInto(other: Matrix<R, C>, out: Matrix<R, C>): Matrix<R, C> {
+    return this.combineInto('Matrix.subInto', other, out, 1, -1);
+  }
+
+  // out = scalar * this
+  scalarMulInto(scalar: number, out: Matrix<R, C>): Matrix<R, C> {
+    return this.combineInto('Matrix.scalarMulInto', this, out, scalar, 0);
+  }
+
+  // out = a * this + b * other, entry by entry
+  private combineInto(
+    method: string,
+    other: Matrix<R, C>,
+    out: Matrix<R, C>,
+    a: number,
+    b: number
+  ): Matrix<R, C> {
+    const { rowCount: rows, columnCount: columns } = this;
+    Matrix.checkOut(method, out, this, other);
+
+    if (this.isDense && other.isDense && out.isDense) {
+      const x = this.buffer;
+      const y = other.buffer;
+      const result = out.buffer;
+      for (let i = 0; i < rows * columns; i++) {
+        result[i] = a * x[i] + b * y[i];
+      }
+      return out;
+    }
+
+    // An operand sharing storage with `out` is read where it is written
+    for (let column = 0; column < columns; column++) {
+      for (let row = 0; row < rows; row++) {
+        out.buffer[out.index(row, column)] =
+          a * this.buffer[this.index(row, column)] +
+          b * other.buffer[other.index(row, column)];
+      }
+    }
+    return out;
   }
 
+  // Shares the storage with this matrix, nothing is copied
   transpose(): Matrix<C, R> {
-    const { rows, columns } = this.size;
-    return Matrix.withProvider<C, R>(
-      { rows: columns, columns: rows },
-      ({ row, column }) => {
-        return this.at({ row: column, column: row });
+    return new Matrix<C, R>({
+      buffer: this.buffer,
+      offset: this.offset,
+      rows: this.columnCount,
+      columns: this.rowCount,
+      rowStride: this.columnStride,
+      columnStride: this.rowStride,
+    });
+  }
+
+  mulVecN(vec: VecN<C>): VecN<R> {
+    const result = new Array<number>(this.rowCount).fill(0);
+    for (let column = 0; column < this.columnCount; column++) {
+      const x = vec[column];
+      for (let row = 0; row < this.rowCount; row++) {
+        result[row] += this.buffer[this.index(row, column)] * x;
       }
+    }
+    return result as unknown as VecN<R>;
+  }
+
+  mulVec2(this: Matrix<3, 3> | Matrix<2, 2>, v: Vec2): Vec2 {
+    const m = this as Matrix<number, number>;
+    const { x, y } = v;
+    const a = m.atColumnRow(0, 0);
+    const b = m.atColumnRow(0, 1);
+    const c = m.atColumnRow(1, 0);
+    const d = m.atColumnRow(1, 1);
+
+    if (m.rowCount === 2) {
+      return new Vec2(a * x + c * y, b * x + d * y);
+    }
+    return new Vec2(
+      a * x + c * y + m.atColumnRow(2, 0),
+      b * x + d * y + m.atColumnRow(2, 1)
     );
   }
 
-  mulVecN(vec: VecN<C>): VecN<R> {
-    return Array.from({ length: this.size.rows }, (_, row) => {
-      return VecNDot(this.rowAtIndex(row), vec);
-    }) as unknown as VecN<R>;
+  mul<N extends number>(other: Matrix<C, N>): Matrix<R, N> {
+    return this.mulInto(
+      other,
+      Matrix.allocate(this.rowCount, other.columnCount)
+    );
   }
 
-  mulVec2(this : Matrix<3, 3> | Matrix<2, 2>, v : Vec2): Vec2 {
-    const components : VecN<C> = (this.size.rows === 2 ? v.components : [...v.components, 1]) as unknown as VecN<C>
+  /*
+    out = this * other. Square 2x2, 3x3 and 4x4 products read every entry
+    into a local before writing any, everything else goes through a scratch
+    buffer when `out` is an operand. Throws when `out` shares storage with a
+    differently laid out operand, like its transpose.
+  */
+  mulInto<N extends number>(
+    other: Matrix<C, N>,
+    out: Matrix<R, N>
+  ): Matrix<R, N> {
+    Matrix.checkOut('Matrix.mulInto', out, this, other);
 
-    const res = this.mulVecN(components as any)
-    return new Vec2(res[0], res[1])
+    const n = this.rowCount as number;
+    if (
+      n === this.columnCount &&
+      n === other.columnCount &&
+      this.isDense &&
+      other.isDense &&
+      out.isDense
+    ) {
+      if (n === 2) {
+        Matrix.mul2x2(this.buffer, other.buffer, out.buffer);
+        return out;
+      } else if (n === 3) {
+        Matrix.mul3x3(this.buffer, other.buffer, out.buffer);
+        return out;
+      } else if (n === 4) {
+        Matrix.mul4x4(this.buffer, other.buffer, out.buffer);
+        return out;
+      }
+    }
+
+    const rows = this.rowCount;
+    const columns = other.columnCount;
+    const inner = this.columnCount;
+    const aliased = out.buffer === this.buffer || out.buffer === other.buffer;
+    const result = aliased ? new Float64Array(rows * columns) : undefined;
+
+    for (let column = 0; column < columns; column++) {
+      for (let row = 0; row < rows; row++) {
+        let sum = 0;
+        for (let k = 0; k < inner; k++) {
+          sum +=
+            this.buffer[this.index(row, k)] *
+            other.buffer[other.index(k, column)];
+        }
+        if (result) {
+          result[column * rows + row] = sum;
+        } else {
+          out.buffer[out.index(row, column)] = sum;
+        }
+      }
+    }
+
+    if (result) {
+      for (let column = 0; column < columns; column++) {
+        for (let row = 0; row < rows; row++) {
+          out.buffer[out.index(row, column)] = result[column * rows + row];
+        }
+      }
+    }
+    return out;
+  }
+
+  // Dense column-major products, safe for `out` to be `a` or `b`
+  private static mul2x2(a: Float64Array, b: Float64Array, out: Float64Array) {
+    const a00 = a[0];
+    const a10 = a[1];
+    const a01 = a[2];
+    const a11 = a[3];
+
+    const b00 = b[0];
+    const b10 = b[1];
+    const b01 = b[2];
+    const b11 = b[3];
+
+    out[0] = a00 * b00 + a01 * b10;
+    out[1] = a10 * b00 + a11 * b10;
+    out[2] = a00 * b01 + a01 * b11;
+    out[3] = a10 * b01 + a11 * b11;
   }
 
-  mul<N extends number>(other: Matrix<C, N>) {
-    return Matrix.withColumnProvider(
-      { rows: this.size.rows, columns: other.size.columns },
-      (column) => {
-        const cVec = other.columnAtIndex(column);
-        return this.mulVecN(cVec);
+  private static mul3x3(a: Float64Array, b: Float64Array, out: Float64Array) {
+    const a00 = a[0];
+    const a10 = a[1];
+    const a20 = a[2];
+    const a01 = a[3];
+    const a11 = a[4];
+    const a21 = a[5];
+    const a02 = a[6];
+    const a12 = a[7];
+    const a22 = a[8];
+
+    for (let column = 0; column < 3; column++) {
+      const b0 = b[column * 3];
+      const b1 = b[column * 3 + 1];
+      const b2 = b[column * 3 + 2];
+      out[column * 3] = a00 * b0 + a01 * b1 + a02 * b2;
+      out[column * 3 + 1] = a10 * b0 + a11 * b1 + a12 * b2;
+      out[column * 3 + 2] = a20 * b0 + a21 * b1 + a22 * b2;
+    }
+  }
+
+  private static mul4x4(a: Float64Array, b: Float64Array, out: Float64Array) {
+    const a00 = a[0];
+    const a10 = a[1];
+    const a20 = a[2];
+    const a30 = a[3];
+    const a01 = a[4];
+    const a11 = a[5];
+    const a21 = a[6];
+    const a31 = a[7];
+    const a02 = a[8];
+    const a12 = a[9];
+    const a22 = a[10];
+    const a32 = a[11];
+    const a03 = a[12];
+    const a13 = a[13];
+    const a23 = a[14];
+    const a33 = a[15];
+
+    for (let column = 0; column < 4; column++) {
+      const b0 = b[column * 4];
+      const b1 = b[column * 4 + 1];
+      const b2 = b[column * 4 + 2];
+      const b3 = b[column * 4 + 3];
+      out[column * 4] = a00 * b0 + a01 * b1 + a02 * b2 + a03 * b3;
+      out[column * 4 + 1] = a10 * b0 + a11 * b1 + a12 * b2 + a13 * b3;
+      out[column * 4 + 2] = a20 * b0 + a21 * b1 + a22 * b2 + a23 * b3;
+      out[column * 4 + 3] = a30 * b0 + a31 * b1 + a32 * b2 + a33 * b3;
+    }
+  }
+
+  private rows(): number[][] {
+    return Array.from({ length: this.rowCount }, (_, row) => [
+      ...this.rowAtIndex(row),
+    ]);
+  }
+
+  private static withRows<R extends number, C extends number>(
+    rows: number[][],
+    columns: C
+  ): Matrix<R, C> {
+    return Matrix.withProvider(
+      { rows: rows.length as R, columns },
+      ({ row, column }) => rows[row][column]
+    );
+  }
+
+  /*
+    LU decomposition with partial pivoting: PA = LU with L unit lower
+    triangular and U upper triangular. `permutation[i]` is the row of A that
+    ended up in row i, `parity` is the sign of that permutation.
+  */
+  lu(this: Matrix<R, R>): LUDecomposition<R> {
+    const n = this.size.rows;
+    const u = this.rows();
+    const l = Matrix.identity(n).rows();
+    const permutation = Array.from({ length: n }, (_, i) => i);
+    let parity: 1 | -1 = 1;
+
+    for (let column = 0; column < n; column++) {
+      let pivot = column;
+      for (let row = column + 1; row < n; row++) {
+        if (Math.abs(u[row][column]) > Math.abs(u[pivot][column])) {
+          pivot = row;
+        }
+      }
+
+      if (pivot !== column) {
+        [u[column], u[pivot]] = [u[pivot], u[column]];
+        [permutation[column], permutation[pivot]] = [
+          permutation[pivot],
+          permutation[column],
+        ];
+        for (let k = 0; k < column; k++) {
+          [l[column][k], l[pivot][k]] = [l[pivot][k], l[column][k]];
+        }
+        parity = parity === 1 ? -1 : 1;
+      }
+
+      if (u[column][column] === 0) {
+        continue;
+      }
+
+      for (let row = column + 1; row < n; row++) {
+        const factor = u[row][column] / u[column][column];
+        l[row][column] = factor;
+        for (let k = column; k < n; k++) {
+          u[row][k] -= factor * u[column][k];
+        }
+      }
+    }
+
+    return {
+      lower: Matrix.withRows(l, n as R),
+      upper: Matrix.withRows(u, n as R),
+      permutation,
+      parity,
+    };
+  }
+
+  determinant(this: Matrix<R, R>): number {
+    const { upper, parity } = this.lu();
+    return Array.from({ length: this.size.rows }, (_, i) =>
+      upper.at({ row: i, column: i })
+    ).reduce((product, pivot) => product * pivot, parity);
+  }
+
+  // Whether a pivot is too small, relative to the size of the entries, to divide by
+  private static isSingular<N extends number>(
+    upper: Matrix<N, N>,
+    scale: number
+  ) {
+    const n = upper.size.rows;
+    const tolerance = 1e-12 * Math.max(scale, Number.MIN_VALUE) * n;
+    return Array.from({ length: n }, (_, i) =>
+      upper.at({ row: i, column: i })
+    ).some((pivot) => Math.abs(pivot) <= tolerance);
+  }
+
+  private maxAbsComponent(): number {
+    let max = 0;
+    for (let column = 0; column < this.columnCount; column++) {
+      for (let row = 0; row < this.rowCount; row++) {
+        max = Math.max(max, Math.abs(this.atColumnRow(column, row)));
+      }
+    }
+    return max;
+  }
+
+  // Solves Ax = b, or returns undefined when A is singular
+  solve(this: Matrix<R, R>, b: VecN<R>): VecN<R> | undefined {
+    const decomposition = this.lu();
+    if (Matrix.isSingular(decomposition.upper, this.maxAbsComponent())) {
+      return undefined;
+    }
+    return Matrix.solveLU(decomposition, b);
+  }
+
+  private static solveLU<N extends number>(
+    { lower, upper, permutation }: LUDecomposition<N>,
+    b: VecN<N>
+  ): VecN<N> {
+    const n = permutation.length;
+
+    // Ly = Pb
+    const y = new Array<number>(n).fill(0);
+    for (let row = 0; row < n; row++) {
+      let sum = b[permutation[row]];
+      for (let k = 0; k < row; k++) {
+        sum -= lower.at({ row, column: k }) * y[k];
+      }
+      y[row] = sum;
+    }
+
+    // Ux = y
+    const x = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+      let sum = y[row];
+      for (let k = row + 1; k < n; k++) {
+        sum -= upper.at({ row, column: k }) * x[k];
+      }
+      x[row] = sum / upper.at({ row, column: row });
+    }
+
+    return x as unknown as VecN<N>;
+  }
+
+  // The inverse, or undefined when the matrix is singular
+  inverse(this: Matrix<R, R>): Matrix<R, R> | undefined {
+    const decomposition = this.lu();
+    if (Matrix.isSingular(decomposition.upper, this.maxAbsComponent())) {
+      return undefined;
+    }
+
+    const n = this.size.rows;
+    return Matrix.withColumnProvider({ rows: n, columns: n }, (column) =>
+      Matrix.solveLU(
+        decomposition,
+        NVecMap(Matrix.identity(n).columnAtIndex(column), (x) => x)
+      )
+    );
+  }
+
+  /*
+    QR decomposition with Householder reflections: A = QR with Q orthogonal
+    and R upper triangular. Each step reflects the rest of a column onto the
+    first axis, zeroing everything below the diagonal.
+  */
+  qr(): { q: Matrix<R, R>; r: Matrix<R, C> } {
+    const { rows: m, columns: n } = this.size;
+    const r = this.rows();
+    const q = Matrix.identity(m).rows();
+
+    for (let k = 0; k < Math.min(m - 1, n); k++) {
+      const x = r.slice(k).map((row) => row[k]);
+      const norm = Math.sqrt(x.reduce((sum, v) => sum + v * v, 0));
+      if (norm === 0) {
+        continue;
+      }
+
+      // Reflect onto -sign(x_0)|x| e_0 to avoid cancellation
+      const alpha = x[0] > 0 ? -norm : norm;
+      const v = x.map((value, i) => (i === 0 ? value - alpha : value));
+      const vv = v.reduce((sum, value) => sum + value * value, 0);
+      if (vv === 0) {
+        continue;
       }
+
+      // R <- (I - 2vv^T / v^Tv) R, only rows k and below change
+      for (let column = 0; column < n; column++) {
+        const dot = v.reduce((sum, vi, i) => sum + vi * r[k + i][column], 0);
+        const f = (2 * dot) / vv;
+        v.forEach((vi, i) => (r[k + i][column] -= f * vi));
+      }
+
+      // Q <- Q (I - 2vv^T / v^Tv), only columns k and right change
+      for (let row = 0; row < m; row++) {
+        const dot = v.reduce((sum, vi, i) => sum + q[row][k + i] * vi, 0);
+        const f = (2 * dot) / vv;
+        v.forEach((vi, i) => (q[row][k + i] -= f * vi));
+      }
+
+      for (let row = k + 1; row < m; row++) {
+        r[row][k] = 0;
+      }
+    }
+
+    return {
+      q: Matrix.withRows(q, m as R),
+      r: Matrix.withRows(r, n),
+    };
+  }
+
+  /*
+    The x minimizing |Ax - b|, through A = QR: the problem becomes
+    Rx = Q^T b in the first `columns` rows. Undefined when the columns of A
+    are linearly dependent, including when there are fewer rows than columns.
+  */
+  leastSquares(b: VecN<R>): VecN<C> | undefined {
+    const { rows: m, columns: n } = this.size;
+    if (m < n) {
+      return undefined;
+    }
+
+    const { q, r } = this.qr();
+    const qtb = q.transpose().mulVecN(b);
+
+    const diagonal = Array.from({ length: n }, (_, i) =>
+      Math.abs(r.at({ row: i, column: i }))
     );
+    const tolerance = 1e-12 * Math.max(...diagonal) * m;
+    if (diagonal.some((pivot) => pivot <= tolerance)) {
+      return undefined;
+    }
+
+    const x = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+      let sum = qtb[row];
+      for (let k = row + 1; k < n; k++) {
+        sum -= r.at({ row, column: k }) * x[k];
+      }
+      x[row] = sum / r.at({ row, column: row });
+    }
+    return x as unknown as VecN<C>;
+  }
+
+  /*
+    Gaussian elimination that only touches entries inside the band, for
+    matrices that are zero more than `lowerBandwidth` below and
+    `upperBandwidth` above the diagonal. O(n * lower * upper) instead of
+    O(n^3). Like `solveTridiagonal` it does not pivot.
+  */
+  solveBanded(
+    this: Matrix<R, R>,
+    b: VecN<R>,
+    lowerBandwidth: number,
+    upperBandwidth: number
+  ): VecN<R> | undefined {
+    const n = this.size.rows;
+    const rows = Array.from({ length: n }, (_, row) => [
+      ...this.rowAtIndex(row),
+    ]);
+    const rhs = [...b];
+
+    for (let column = 0; column < n; column++) {
+      const pivot = rows[column][column];
+      if (Math.abs(pivot) < 1e-12) {
+        return undefined;
+      }
+
+      const lastRow = Math.min(n - 1, column + lowerBandwidth);
+      const lastColumn = Math.min(n - 1, column + upperBandwidth);
+
+      for (let row = column + 1; row <= lastRow; row++) {
+        const factor = rows[row][column] / pivot;
+        for (let k = column; k <= lastColumn; k++) {
+          rows[row][k] -= factor * rows[column][k];
+        }
+        rhs[row] -= factor * rhs[column];
+      }
+    }
+
+    const x = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+      let sum = rhs[row];
+      const lastColumn = Math.min(n - 1, row + upperBandwidth);
+      for (let k = row + 1; k <= lastColumn; k++) {
+        sum -= rows[row][k] * x[k];
+      }
+      x[row] = sum / rows[row][row];
+    }
+
+    return x as unknown as VecN<R>;
+  }
+
+  /*
+    Eigenvalues, complex conjugate pairs included. 2x2 matrices use the
+    characteristic polynomial directly. Larger ones are reduced to
+    Hessenberg form and run Francis double shift QR iteration, which finds
+    complex pairs without complex arithmetic. Throws when an eigenvalue takes
+    more than `maxIterations` steps.
+  */
+  eigenvalues(this: Matrix<R, R>, maxIterations: number = 60): Complex[] {
+    const n = this.size.rows;
+    if (n === 1) {
+      return [{ re: this.at({ row: 0, column: 0 }), im: 0 }];
+    }
+    if (n === 2) {
+      const [[a, b], [c, d]] = this.rows();
+      return quadraticEigenvalues(a + d, a * d - b * c);
+    }
+
+    return hessenbergEigenvalues(toHessenberg(this.rows()), maxIterations);
+  }
+
+  /*
+    Eigenvalues with their eigenvectors. Eigenvectors of real eigenvalues come
+    from inverse iteration: solving (A - (value + epsilon)I)x = x repeatedly
+    blows up the component along the eigenvector until nothing else is left.
+    For a repeated eigenvalue the eigenvectors already found for it are
+    projected out at every step, so a full eigenspace gets independent vectors
+    while a defective one repeats the single vector it has.
+  */
+  eigen(this: Matrix<R, R>): Eigenpair<R>[] {
+    const n = this.size.rows;
+    const scale = Math.max(this.maxAbsComponent(), 1e-300);
+    const pairs: Eigenpair<R>[] = [];
+
+    for (const value of this.eigenvalues()) {
+      if (value.im !== 0) {
+        pairs.push({ value, vector: undefined });
+        continue;
+      }
+
+      const found = pairs
+        .filter(
+          ({ value: other }) =>
+            other.im === 0 && Math.abs(other.re - value.re) < 1e-8 * scale
+        )
+        .map(({ vector }) => vector!);
+
+      const orthogonalized = (x: number[]) => {
+        found.forEach((vector) => {
+          const projection = VecNDot(vector, x as unknown as VecN<R>);
+          x = x.map((v, i) => v - projection * vector[i]);
+        });
+        return x;
+      };
+      const normalized = (x: number[]) => {
+        const norm = Math.sqrt(VecNDot(x, x));
+        return x.map((v) => v / norm);
+      };
+
+      const shifted = this.sub(
+        Matrix.identity(n).scalarMul(value.re + 1e-10 * scale)
+      ) as Matrix<R, R>;
+
+      /*
+        Any vector will do as long as it is not special, hence the odd angles.
+        When the eigenvectors found already nearly span it, the unit vector
+        sticking out furthest from them is used instead.
+      */
+      let x = orthogonalized(
+        Array.from({ length: n }, (_, i) =>
+          Math.cos(1 + found.length + 2.4 * i)
+        )
+      );
+      if (VecNDot(x, x) < 0.01) {
+        x = Array.from({ length: n }, (_, k) =>
+          orthogonalized(Array.from({ length: n }, (_, i) => (i === k ? 1 : 0)))
+        ).reduce((a, b) => (VecNDot(b, b) > VecNDot(a, a) ? b : a));
+      }
+      x = normalized(x);
+
+      /*
+        A singular shift, e.g. every eigenvalue of the zero matrix, fails to
+        solve or overflows. x is then kept as it is, which is still a fine
+        eigenvector when the whole space is the eigenspace.
+      */
+      for (let i = 0; i < 3; i++) {
+        const next = shifted.solve(x as unknown as VecN<R>);
+        const candidate = next && normalized(orthogonalized([...next]));
+        if (!candidate || !candidate.every(Number.isFinite)) {
+          break;
+        }
+        x = candidate;
+      }
+
+      const residual = this.mulVecN(x as unknown as VecN<R>).map(
+        (v, i) => v - value.re * x[i]
+      );
+      if (
+        found.length > 0 &&
+        Math.sqrt(VecNDot(residual, residual)) > 1e-6 * scale
+      ) {
+        x = [...found[found.length - 1]];
+      }
+
+      // Pick the sign that makes the largest component positive
+      const largest = x.reduce((m, v) => (Math.abs(v) > Math.abs(m) ? v : m));
+      pairs.push({
+        value,
+        vector: x.map((v) => (largest < 0 ? -v : v)) as unknown as VecN<R>,
+      });
+    }
+
+    return pairs;
+  }
+
+  /*
+    One-sided Jacobi (Hestenes) SVD: rotates pairs of columns of A until they
+    are all orthogonal, accumulating the rotations in V. The column lengths
+    are then the singular values and the normalized columns make up U.
+  */
+  svd(): SingularValueDecomposition<R, C> {
+    const { rows: m, columns: n } = this.size;
+    if (m < n) {
+      const { u, singularValues, v } = this.transpose().svd();
+      return { u: v, singularValues, v: u } as SingularValueDecomposition<R, C>;
+    }
+
+    const u = Array.from({ length: n }, (_, column) => [
+      ...this.columnAtIndex(column),
+    ]);
+    const v = Matrix.identity(n).rows();
+    const dot = (a: number[], b: number[]) =>
+      a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+    for (let sweep = 0; sweep < 60; sweep++) {
+      let rotated = false;
+
+      for (let p = 0; p < n - 1; p++) {
+        for (let q = p + 1; q < n; q++) {
+          const alpha = dot(u[p], u[p]);
+          const beta = dot(u[q], u[q]);
+          const gamma = dot(u[p], u[q]);
+          if (Math.abs(gamma) <= 1e-15 * Math.sqrt(alpha * beta)) {
+            continue;
+          }
+          rotated = true;
+
+          const zeta = (beta - alpha) / (2 * gamma);
+          const t =
+            (zeta >= 0 ? 1 : -1) /
+            (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+          const c = 1 / Math.sqrt(1 + t * t);
+          const s = c * t;
+
+          for (let i = 0; i < m; i++) {
+            const up = u[p][i];
+            const uq = u[q][i];
+            u[p][i] = c * up - s * uq;
+            u[q][i] = s * up + c * uq;
+          }
+          for (let i = 0; i < n; i++) {
+            const vp = v[i][p];
+            const vq = v[i][q];
+            v[i][p] = c * vp - s * vq;
+            v[i][q] = s * vp + c * vq;
+          }
+        }
+      }
+
+      if (!rotated) {
+        break;
+      }
+    }
+
+    const order = Array.from({ length: n }, (_, i) => i)
+      .map((i) => ({ i, sigma: Math.sqrt(dot(u[i], u[i])) }))
+      .sort((a, b) => b.sigma - a.sigma);
+
+    return {
+      u: Matrix.withColumnProvider<R, number>(
+        { rows: m, columns: n },
+        (column) => {
+          const { i, sigma } = order[column];
+          return u[i].map((x) =>
+            sigma === 0 ? 0 : x / sigma
+          ) as unknown as VecN<R>;
+        }
+      ),
+      singularValues: order.map(({ sigma }) => sigma),
+      v: Matrix.withColumnProvider<C, number>(
+        { rows: n, columns: n },
+        (column) => v.map((row) => row[order[column].i]) as unknown as VecN<C>
+      ),
+    };
   }
 
   static viewportTransformation(
@@ -197,10 +1303,139 @@ export class Matrix<R extends number, C extends number> {
     return new Matrix([
       [scale.x, 0, 0],
       [0, scale.y, 0],
-      [translate.x, translate.y, 0]
+      [translate.x, translate.y, 1]
     ] as const)
   }
 
+  static translation3D(offset: Vec3): Matrix<4, 4> {
+    return Matrix.withRows<4, 4>(
+      [
+        [1, 0, 0, offset.x],
+        [0, 1, 0, offset.y],
+        [0, 0, 1, offset.z],
+        [0, 0, 0, 1],
+      ],
+      4
+    );
+  }
+
+  static scaling3D(factor: Vec3): Matrix<4, 4> {
+    return Matrix.withRows<4, 4>(
+      [
+        [factor.x, 0, 0, 0],
+        [0, factor.y, 0, 0],
+        [0, 0, factor.z, 0],
+        [0, 0, 0, 1],
+      ],
+      4
+    );
+  }
+
+  /*
+    Counter-clockwise rotation by `angleRad` when looking from the tip of
+    `axis` towards the origin (Rodrigues' formula). rotationX/Y/Z are the
+    special cases for the coordinate axes.
+  */
+  static rotation3D(axis: Vec3, angleRad: number): Matrix<4, 4> {
+    const { x, y, z } = axis.normalized();
+    const c = Math.cos(angleRad);
+    const s = Math.sin(angleRad);
+    const t = 1 - c;
+
+    return Matrix.withRows<4, 4>(
+      [
+        [t * x * x + c, t * x * y - s * z, t * x * z + s * y, 0],
+        [t * x * y + s * z, t * y * y + c, t * y * z - s * x, 0],
+        [t * x * z - s * y, t * y * z + s * x, t * z * z + c, 0],
+        [0, 0, 0, 1],
+      ],
+      4
+    );
+  }
+
+  static rotationX(angleRad: number): Matrix<4, 4> {
+    return Matrix.rotation3D(Vec3.right, angleRad);
+  }
+
+  static rotationY(angleRad: number): Matrix<4, 4> {
+    return Matrix.rotation3D(Vec3.up, angleRad);
+  }
+
+  static rotationZ(angleRad: number): Matrix<4, 4> {
+    return Matrix.rotation3D(Vec3.forward, angleRad);
+  }
+
+  /*
+    World to camera coordinates for a camera at `eye` looking at `target`.
+    The camera looks down its own -z axis with +y up, as in OpenGL.
+  */
+  static lookAt(eye: Vec3, target: Vec3, up: Vec3 = Vec3.up): Matrix<4, 4> {
+    const back = eye.sub(target).normalized();
+    const right = up.cross(back).normalized();
+    const trueUp = back.cross(right);
+
+    return Matrix.withRows<4, 4>(
+      [
+        [...right.components, -right.dot(eye)],
+        [...trueUp.components, -trueUp.dot(eye)],
+        [...back.components, -back.dot(eye)],
+        [0, 0, 0, 1],
+      ],
+      4
+    );
+  }
+
+  /*
+    Camera to clip coordinates. After dividing by w, points between the near
+    and far planes and inside the field of view end up in the cube
+    [-1, 1]^3, with the near plane at z = -1.
+  */
+  static perspective(
+    fieldOfViewYRad: number,
+    aspect: number,
+    near: number,
+    far: number
+  ): Matrix<4, 4> {
+    const f = 1 / Math.tan(fieldOfViewYRad / 2);
+    return Matrix.withRows<4, 4>(
+      [
+        [f / aspect, 0, 0, 0],
+        [0, f, 0, 0],
+        [0, 0, (far + near) / (near - far), (2 * far * near) / (near - far)],
+        [0, 0, -1, 0],
+      ],
+      4
+    );
+  }
+
+  // Maps the box [left, right] x [bottom, top] x [-near, -far] onto [-1, 1]^3
+  static orthographic(
+    left: number,
+    right: number,
+    bottom: number,
+    top: number,
+    near: number,
+    far: number
+  ): Matrix<4, 4> {
+    return Matrix.withRows<4, 4>(
+      [
+        [2 / (right - left), 0, 0, -(right + left) / (right - left)],
+        [0, 2 / (top - bottom), 0, -(top + bottom) / (top - bottom)],
+        [0, 0, -2 / (far - near), -(far + near) / (far - near)],
+        [0, 0, 0, 1],
+      ],
+      4
+    );
+  }
+
+  // Transforms a point, dividing by w afterwards unless w is 0
+  mulVec3(this: Matrix<4, 4>, v: Vec3): Vec3 {
+    const [x, y, z, w] = this.mulVecN([...v.components, 1] as const);
+    return w === 0
+      ? new Vec3(x, y, z)
+      : new Vec3(x / w, y / w, z / w);
+  }
+
   static fromDOMMatrix(m : DOMMatrix): Matrix<3, 3>  {
     return new Matrix([
       [m.a, m.b, 0],
@@ -211,10 +1446,10 @@ export class Matrix<R extends number, C extends number> {
 
   toDOMMatrix(this : Matrix<3, 3>): DOMMatrix {
     return new DOMMatrix([
-      ...this.data[0], 0,
-      ...this.data[1], 0,
+      ...this.columnAtIndex(0), 0,
+      ...this.columnAtIndex(1), 0,
       0, 0, 1, 0,
-      ...this.data[2], 1,
+      ...this.columnAtIndex(2), 1,
     ])
   }
 }
@@ -47,6 +47,27 @@ export class Rect {
     return this.convertNormalizedCoordinate(new Vec2(0.5, 0.5));
   }
 
+  contains(p: Vec2): boolean {
+    const far = this.farCorner;
+    return (
+      p.x >= this.origin.x &&
+      p.x <= far.x &&
+      p.y >= this.origin.y &&
+      p.y <= far.y
+    );
+  }
+
+  intersects(other: Rect): boolean {
+    const a = this.farCorner;
+    const b = other.farCorner;
+    return (
+      this.origin.x <= b.x &&
+      other.origin.x <= a.x &&
+      this.origin.y <= b.y &&
+      other.origin.y <= a.y
+    );
+  }
+
   inset(amount: number): Rect {
     return this.insetEach({
       left: amount,
@@ -0,0 +1,197 @@
+import { ParametricEquation } from '../Interpolator';
+import {
+  parametricNumericCurvature,
+  parametricNumericDerivative,
+} from './Derivative';
+import { Vec2 } from './Vec2';
+
+export type StrokeJoin = 'miter' | 'round' | 'bevel';
+export type StrokeCap = 'butt' | 'round' | 'square';
+
+// What a width function can base the width on at each parameter
+export type StrokeSample = {
+  t: number;
+  point: Vec2;
+  speed: number;
+  curvature: number;
+};
+
+export type StrokeOptions = {
+  // Full width of the stroke, in the same units as the curve
+  width: number | ((sample: StrokeSample) => number);
+  join?: StrokeJoin;
+  cap?: StrokeCap;
+  // Miter joins longer than this many half widths turn into bevels
+  miterLimit?: number;
+  samples?: number;
+  range?: [number, number];
+};
+
+// Left hand normal: the direction of travel rotated a quarter turn counter-clockwise
+function leftNormal(direction: Vec2): Vec2 {
+  return direction.crossAxisZ().negate().normalized();
+}
+
+/*
+  The curve moved sideways by `distance` at every point, positive distances
+  to the left of the direction of travel. Where the distance exceeds the
+  radius of curvature the offset curve forms loops and cusps.
+*/
+export function offsetCurve(
+  eqn: ParametricEquation,
+  distance: number | ((t: number) => number),
+  derivativeStep: number = 1e-5
+): ParametricEquation {
+  const d = typeof distance === 'number' ? () => distance : distance;
+
+  return (t) => {
+    const tangent = parametricNumericDerivative(t, eqn, derivativeStep);
+    return eqn(t).add(leftNormal(tangent).scale(d(t)));
+  };
+}
+
+// Points of a circular arc around `center`, from angle `from` turning by `sweep`
+function arcPoints(center: Vec2, radius: number, from: number, sweep: number) {
+  const steps = Math.max(2, Math.ceil(Math.abs(sweep) / (Math.PI / 16)));
+  return Array.from({ length: steps + 1 }, (_, i) =>
+    center.add(Vec2.polar(from + (sweep * i) / steps, radius))
+  );
+}
+
+/*
+  Builds the outline of a stroke along the curve as a single polygon, ready
+  for `Canvas.drawPolygon`. The curve is sampled into a polyline, both sides
+  are offset by half the width at each sample, corners get the requested
+  join on their outer side and the two ends get caps.
+*/
+export function strokeOutline(
+  eqn: ParametricEquation,
+  options: StrokeOptions
+): Vec2[] {
+  const samples = options.samples ?? 200;
+  const [min, max] = options.range ?? [0, 1];
+  const join = options.join ?? 'miter';
+  const cap = options.cap ?? 'butt';
+  const miterLimit = options.miterLimit ?? 4;
+  const h = Math.abs(max - min) / samples / 100;
+
+  const { width: w } = options;
+  const width = typeof w === 'number' ? () => w : w;
+
+  // Drop samples that coincide with their predecessor, they have no direction
+  const pts: { point: Vec2; halfWidth: number }[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const t = min + ((max - min) * i) / samples;
+    const point = eqn(t);
+    if (pts.length > 0 && point.distance(pts[pts.length - 1].point) < 1e-12) {
+      continue;
+    }
+
+    const halfWidth =
+      width({
+        t,
+        point,
+        speed: parametricNumericDerivative(t, eqn, h).magnitude(),
+        curvature: parametricNumericCurvature(t, eqn, h),
+      }) / 2;
+    pts.push({ point, halfWidth: Math.max(halfWidth, 0) });
+  }
+
+  if (pts.length < 2) {
+    return [];
+  }
+
+  const directions = pts
+    .slice(1)
+    .map(({ point }, i) => point.sub(pts[i].point).normalized());
+
+  const left: Vec2[] = [];
+  const right: Vec2[] = [];
+
+  pts.forEach(({ point, halfWidth }, i) => {
+    const d0 = directions[Math.max(i - 1, 0)];
+    const d1 = directions[Math.min(i, directions.length - 1)];
+    const n0 = leftNormal(d0);
+    const n1 = leftNormal(d1);
+
+    if (i === 0 || i === pts.length - 1 || d0.dot(d1) > 1 - 1e-12) {
+      left.push(point.add(n1.scale(halfWidth)));
+      right.push(point.sub(n1.scale(halfWidth)));
+      return;
+    }
+
+    // Offset from the point to where the two offset lines on the left meet
+    const denominator = 1 + n0.dot(n1);
+    const miter =
+      denominator < 1e-9
+        ? n0.scale(halfWidth * miterLimit)
+        : n0.add(n1).scale(halfWidth / denominator);
+    const miterTooLong = miter.magnitude() > halfWidth * miterLimit;
+
+    const turningLeft = d0.crossMagnitude(d1) > 0;
+    // Sign of the normals on the outside of the turn
+    const outer = turningLeft ? -1 : 1;
+
+    const innerPoint = point.sub(
+      miterTooLong
+        ? miter.normalized().scale(halfWidth * miterLimit * outer)
+        : miter.scale(outer)
+    );
+
+    let outerPoints: Vec2[];
+    if (join === 'miter' && !miterTooLong) {
+      outerPoints = [point.add(miter.scale(outer))];
+    } else if (join === 'round') {
+      const from = n0.scale(outer).polarAngleRad();
+      let sweep = n1.scale(outer).polarAngleRad() - from;
+      if (sweep > Math.PI) {
+        sweep -= 2 * Math.PI;
+      } else if (sweep < -Math.PI) {
+        sweep += 2 * Math.PI;
+      }
+      outerPoints = arcPoints(point, halfWidth, from, sweep);
+    } else {
+      outerPoints = [
+        point.add(n0.scale(halfWidth * outer)),
+        point.add(n1.scale(halfWidth * outer)),
+      ];
+    }
+
+    if (turningLeft) {
+      left.push(innerPoint);
+      right.push(...outerPoints);
+    } else {
+      left.push(...outerPoints);
+      right.push(innerPoint);
+    }
+  });
+
+  const capPoints = (
+    point: Vec2,
+    direction: Vec2,
+    halfWidth: number
+  ): Vec2[] => {
+    // Goes around the end from the left side to the right side
+    const n = leftNormal(direction);
+    if (cap === 'square') {
+      const extension = direction.scale(halfWidth);
+      return [
+        point.add(n.scale(halfWidth)).add(extension),
+        point.sub(n.scale(halfWidth)).add(extension),
+      ];
+    } else if (cap === 'round') {
+      return arcPoints(point, halfWidth, n.polarAngleRad(), -Math.PI);
+    }
+    return [];
+  };
+
+  const first = pts[0];
+  const last = pts[pts.length - 1];
+
+  return [
+    ...left,
+    ...capPoints(last.point, directions[directions.length - 1], last.halfWidth),
+    ...right.reverse(),
+    ...capPoints(first.point, directions[0].negate(), first.halfWidth),
+  ];
+}
@@ -0,0 +1,252 @@
+import { Matrix } from './Matrix';
+import { Rect } from './Rect';
+import { Vec2 } from './Vec2';
+
+/*
+  The parts of an affine transform, applied in the order scale, shear,
+  rotation and then translation:
+
+    T * R(rotation) * [1 shear; 0 1] * diag(scale)
+
+  A reflection shows up as a negative scale.y.
+*/
+export type Transform2DComponents = {
+  translation: Vec2;
+  rotation: number;
+  scale: Vec2;
+  shear: number;
+};
+
+/*
+  An affine map of the plane, p -> A p + t, stored as the 3x3 homogeneous
+  matrix
+
+    a c e
+    b d f
+    0 0 1
+
+  with the same a to f naming as DOMMatrix and CanvasRenderingContext2D.
+*/
+export class Transform2D {
+  private constructor(readonly matrix: Matrix<3, 3>) {}
+
+  static readonly identity = new Transform2D(Matrix.identity(3));
+
+  static create(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number
+  ): Transform2D {
+    return new Transform2D(
+      new Matrix([
+        [a, b, 0],
+        [c, d, 0],
+        [e, f, 1],
+      ] as const)
+    );
+  }
+
+  // Throws for matrices that are not affine, i.e. with a bottom row other than 0 0 1
+  static fromMatrix(m: Matrix<3, 3>): Transform2D {
+    const [x, y, w] = m.rowAtIndex(2);
+    if (x !== 0 || y !== 0 || w !== 1) {
+      throw new Error(
+        `Transform2D: expected a bottom row of 0 0 1, got ${x} ${y} ${w}`
+      );
+    }
+    return new Transform2D(m);
+  }
+
+  // The transform taking the columns of `linear` to the images of the basis vectors
+  static linear(linear: Matrix<2, 2>): Transform2D {
+    const [a, b] = linear.columnAtIndex(0);
+    const [c, d] = linear.columnAtIndex(1);
+    return Transform2D.create(a, b, c, d, 0, 0);
+  }
+
+  static translate(offset: Vec2): Transform2D {
+    return Transform2D.create(1, 0, 0, 1, offset.x, offset.y);
+  }
+
+  // Counter-clockwise, about `center`
+  static rotate(angleRad: number, center: Vec2 = Vec2.zero): Transform2D {
+    const cos = Math.cos(angleRad);
+    const sin = Math.sin(angleRad);
+    return Transform2D.create(cos, sin, -sin, cos, 0, 0).about(center);
+  }
+
+  static scale(factor: Vec2 | number, center: Vec2 = Vec2.zero): Transform2D {
+    const { x, y } =
+      typeof factor === 'number' ? new Vec2(factor, factor) : factor;
+    return Transform2D.create(x, 0, 0, y, 0, 0).about(center);
+  }
+
+  // x' = x + factor.x * y and y' = y + factor.y * x
+  static shear(factor: Vec2): Transform2D {
+    return Transform2D.create(1, factor.y, factor.x, 1, 0, 0);
+  }
+
+  // Mirrors across the line through `point` along `direction`
+  static reflect(direction: Vec2, point: Vec2 = Vec2.zero): Transform2D {
+    const { x, y } = direction.normalized();
+    return Transform2D.create(
+      x * x - y * y,
+      2 * x * y,
+      2 * x * y,
+      y * y - x * x,
+      0,
+      0
+    ).about(point);
+  }
+
+  // Maps `source` onto `dest`, corner to corner, without rotating
+  static viewport(source: Rect, dest: Rect): Transform2D {
+    const scale = dest.size.componentDiv(source.size);
+    const translation = dest.origin.sub(scale.componentMul(source.origin));
+    return Transform2D.create(
+      scale.x,
+      0,
+      0,
+      scale.y,
+      translation.x,
+      translation.y
+    );
+  }
+
+  static compose(components: Partial<Transform2DComponents>): Transform2D {
+    const {
+      translation = Vec2.zero,
+      rotation = 0,
+      scale = Vec2.one,
+      shear = 0,
+    } = components;
+
+    return Transform2D.scale(scale)
+      .then(Transform2D.shear(new Vec2(shear, 0)))
+      .then(Transform2D.rotate(rotation))
+      .then(Transform2D.translate(translation));
+  }
+
+  static fromDOMMatrix(m: DOMMatrixReadOnly): Transform2D {
+    return Transform2D.create(m.a, m.b, m.c, m.d, m.e, m.f);
+  }
+
+  toDOMMatrix(): DOMMatrix {
+    return new DOMMatrix(this.components);
+  }
+
+  // [a, b, c, d, e, f], the argument order of CanvasRenderingContext2D.transform
+  get components(): [number, number, number, number, number, number] {
+    const [a, b] = this.matrix.columnAtIndex(0);
+    const [c, d] = this.matrix.columnAtIndex(1);
+    const [e, f] = this.matrix.columnAtIndex(2);
+    return [a, b, c, d, e, f];
+  }
+
+  get translation(): Vec2 {
+    const [e, f] = this.matrix.columnAtIndex(2);
+    return new Vec2(e, f);
+  }
+
+  get determinant(): number {
+    const [a, b, c, d] = this.components;
+    return a * d - b * c;
+  }
+
+  // This transform followed by `next`
+  then(next: Transform2D): Transform2D {
+    return new Transform2D(next.matrix.mul(this.matrix));
+  }
+
+  // The same transform, but with `center` as the fixed point instead of the origin
+  private about(center: Vec2): Transform2D {
+    return Transform2D.translate(center.negate())
+      .then(this)
+      .then(Transform2D.translate(center));
+  }
+
+  // Undefined when the transform collapses the plane onto a line or a point
+  inverse(): Transform2D | undefined {
+    const [a, b, c, d, e, f] = this.components;
+    const determinant = this.determinant;
+    const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c), Math.abs(d));
+    if (Math.abs(determinant) <= 1e-12 * scale * scale) {
+      return undefined;
+    }
+
+    const ia = d / determinant;
+    const ib = -b / determinant;
+    const ic = -c / determinant;
+    const id = a / determinant;
+    return Transform2D.create(
+      ia,
+      ib,
+      ic,
+      id,
+      -(ia * e + ic * f),
+      -(ib * e + id * f)
+    );
+  }
+
+  // Points are moved by the translation part, directions are not
+  apply(p: Vec2): Vec2 {
+    return this.matrix.mulVec2(p);
+  }
+
+  applyToDirection(v: Vec2): Vec2 {
+    const [a, b, c, d] = this.components;
+    return new Vec2(a * v.x + c * v.y, b * v.x + d * v.y);
+  }
+
+  /*
+    The axis-aligned bounds of the transformed corners of r. This is the
+    transformed rect itself only without rotation or shear, otherwise it is
+    larger.
+  */
+  applyToRect(r: Rect): Rect {
+    const corners = [
+      r.origin,
+      r.convertNormalizedCoordinate(new Vec2(1, 0)),
+      r.convertNormalizedCoordinate(new Vec2(0, 1)),
+      r.farCorner,
+    ].map((p) => this.apply(p));
+
+    const min = corners.reduce(
+      (m, p) => new Vec2(Math.min(m.x, p.x), Math.min(m.y, p.y))
+    );
+    const max = corners.reduce(
+      (m, p) => new Vec2(Math.max(m.x, p.x), Math.max(m.y, p.y))
+    );
+    return Rect.withCorners(min, max);
+  }
+
+  /*
+    Inverse of `compose`. The rotation takes the first column to the x axis,
+    which leaves the linear part upper triangular,
+
+      sx  m
+      0   sy
+
+    so the scale is (sx, sy) and the shear m / sy.
+  */
+  decompose(): Transform2DComponents {
+    const [a, b, c, d] = this.components;
+    const sx = Math.hypot(a, b);
+    const rotation = Math.atan2(b, a);
+
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const m = cos * c + sin * d;
+    const sy = -sin * c + cos * d;
+
+    return {
+      translation: this.translation,
+      rotation,
+      scale: new Vec2(sx, sy),
+      shear: sy === 0 ? 0 : m / sy,
+    };
+  }
+}
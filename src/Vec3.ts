@@ -0,0 +1,121 @@
+import { Vec2 } from './Vec2';
+
+export class Vec3 {
+  constructor(
+    public readonly x: number,
+    public readonly y: number,
+    public readonly z: number
+  ) {}
+
+  static readonly zero = new Vec3(0, 0, 0);
+  static readonly one = new Vec3(1, 1, 1);
+
+  static readonly right = new Vec3(1, 0, 0);
+  static readonly up = new Vec3(0, 1, 0);
+  // Towards the viewer in a right-handed coordinate system
+  static readonly forward = new Vec3(0, 0, 1);
+
+  static fromVec2(v: Vec2, z: number = 0) {
+    return new Vec3(v.x, v.y, z);
+  }
+
+  get components(): [number, number, number] {
+    return [this.x, this.y, this.z];
+  }
+
+  get xy(): Vec2 {
+    return new Vec2(this.x, this.y);
+  }
+
+  get(component: 'x' | 'y' | 'z') {
+    return this[component];
+  }
+
+  toString() {
+    return `(x : ${this.x}, y : ${this.y}, z : ${this.z})`;
+  }
+
+  add(other: Vec3) {
+    return new Vec3(this.x + other.x, this.y + other.y, this.z + other.z);
+  }
+
+  sub(other: Vec3) {
+    return new Vec3(this.x - other.x, this.y - other.y, this.z - other.z);
+  }
+
+  componentMul(other: Vec3) {
+    return new Vec3(this.x * other.x, this.y * other.y, this.z * other.z);
+  }
+
+  componentDiv(other: Vec3) {
+    return new Vec3(
+      other.x === 0 ? 0 : this.x / other.x,
+      other.y === 0 ? 0 : this.y / other.y,
+      other.z === 0 ? 0 : this.z / other.z
+    );
+  }
+
+  dot(other: Vec3) {
+    return this.x * other.x + this.y * other.y + this.z * other.z;
+  }
+
+  cross(other: Vec3) {
+    return new Vec3(
+      this.y * other.z - this.z * other.y,
+      this.z * other.x - this.x * other.z,
+      this.x * other.y - this.y * other.x
+    );
+  }
+
+  magnitudeSquared() {
+    return this.dot(this);
+  }
+
+  magnitude() {
+    return Math.sqrt(this.magnitudeSquared());
+  }
+
+  scale(scalar: number) {
+    return new Vec3(this.x * scalar, this.y * scalar, this.z * scalar);
+  }
+
+  divScale(scalar: number) {
+    return scalar === 0 ? Vec3.zero : this.scale(1 / scalar);
+  }
+
+  normalized() {
+    return this.divScale(this.magnitude());
+  }
+
+  // Polar angle is measured from the y axis, azimuth around it from the z axis
+  static spherical(polarRad: number, azimuthRad: number, radius: number = 1) {
+    return new Vec3(
+      radius * Math.sin(polarRad) * Math.sin(azimuthRad),
+      radius * Math.cos(polarRad),
+      radius * Math.sin(polarRad) * Math.cos(azimuthRad)
+    );
+  }
+
+  distanceSquared(other: Vec3) {
+    return this.sub(other).magnitudeSquared();
+  }
+
+  distance(other: Vec3) {
+    return Math.sqrt(this.distanceSquared(other));
+  }
+
+  lerp(to: Vec3, amount: number) {
+    return this.add(to.sub(this).scale(amount));
+  }
+
+  negate() {
+    return this.scale(-1);
+  }
+
+  static linearCombination(...terms: [number, Vec3][]): Vec3 {
+    return terms.reduce(
+      (result, [coeff, value]) => result.add(value.scale(coeff)),
+      Vec3.zero
+    );
+  }
+}